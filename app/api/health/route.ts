@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server"
+
+// Answered fresh on every request, so a hung process fails its liveness probe
+export const dynamic = "force-dynamic"
+
+// Liveness: the process is up and serving requests. Deliberately checks nothing else, so a missing API key
+// or an upstream outage never gets a healthy instance restarted; /api/ready covers those.
+export async function GET() {
+  return NextResponse.json(
+    { status: "ok", uptimeSeconds: Math.round(process.uptime()) },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { getJobStore } from "@/lib/jobs"
+import { logger } from "@/lib/logger"
+
+async function readJob(id: string): Promise<Response> {
+  try {
+    const job = await getJobStore().get(id)
+
+    if (!job) {
+      return errorResponse(new OcrError("NOT_FOUND", "Job not found"))
+    }
+
+    return NextResponse.json({
+      id: job.id,
+      status: job.status,
+      progress: job.progress,
+      result: job.result,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    })
+  } catch (error) {
+    logger.error("reading the job failed", { jobId: id, error })
+    return errorResponse(error)
+  }
+}
+
+// Polling is free, so it is not rate limited, but it needs the same client key as submitting
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  return withApiAccess(request, () => readJob(params.id), { rateLimit: false })
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["GET"])
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { startOcrJob } from "@/lib/jobs"
+import { logger } from "@/lib/logger"
+import { checkUploadSize, parseDpi } from "@/lib/ocr"
+import { MAX_PDF_DPI, MIN_PDF_DPI } from "@/lib/pdf"
+import { parsePreprocessing } from "@/lib/preprocessing"
+import { getOcrProvider } from "@/lib/providers"
+import { TILING_MODES, parseTiling } from "@/lib/tiling"
+
+// /api/ocr form fields that jobs do not support: a job always recognizes the whole upload as plain text,
+// does not use the result cache and is polled rather than streamed
+const UNSUPPORTED_FIELDS = ["format", "regions", "cache", "stream"]
+
+// Accepts the image, dpi, preprocessing and tiling fields of /api/ocr but returns immediately with a
+// job id to poll. Any other /api/ocr field is rejected rather than ignored.
+async function queueJob(request: NextRequest): Promise<Response> {
+  try {
+    const provider = getOcrProvider()
+    const configurationError = provider.configurationError()
+    if (configurationError) {
+      logger.error("OCR provider is not configured", { provider: provider.name, error: configurationError.message })
+      return errorResponse(configurationError)
+    }
+
+    const formData = await request.formData()
+    const image = formData.get("image") as File
+
+    if (!image) {
+      logger.warn("no image file provided")
+      return errorResponse(new OcrError("INVALID_REQUEST", "No image file provided"))
+    }
+
+    const unsupportedFields = UNSUPPORTED_FIELDS.filter((field) => formData.has(field))
+    if (unsupportedFields.length > 0) {
+      logger.warn("unsupported job fields", { fields: unsupportedFields })
+      return errorResponse(
+        new OcrError("INVALID_REQUEST", `Jobs do not support these fields: ${unsupportedFields.join(", ")}`, {
+          fields: unsupportedFields,
+        }),
+      )
+    }
+
+    const sizeError = checkUploadSize(image)
+    if (sizeError) {
+      logger.warn("uploaded file is over the size limit", { bytes: image.size })
+      return errorResponse(sizeError)
+    }
+
+    const dpi = parseDpi(formData.get("dpi"))
+    if (dpi === null) {
+      logger.warn("invalid DPI value", { dpi: formData.get("dpi") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `DPI must be a number between ${MIN_PDF_DPI} and ${MAX_PDF_DPI}`))
+    }
+
+    const preprocessing = parsePreprocessing(formData.get("preprocessing"))
+
+    const tiling = parseTiling(formData.get("tiling"))
+    if (tiling === null) {
+      logger.warn("invalid tiling mode", { tiling: formData.get("tiling") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Tiling must be one of: ${TILING_MODES.join(", ")}`))
+    }
+
+    logger.info("received upload", { mimeType: image.type, bytes: image.size })
+
+    const buffer = Buffer.from(await image.arrayBuffer())
+    const job = await startOcrJob(buffer, image.type, dpi, preprocessing, tiling)
+
+    logger.info("job queued", { jobId: job.id })
+    return NextResponse.json({ id: job.id, status: job.status }, { status: 202 })
+  } catch (error) {
+    logger.error("queueing the job failed", { error })
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withApiAccess(request, () => queueJob(request))
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["POST"])
+}
@@ -0,0 +1,32 @@
+import type { NextRequest } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import { renderMetrics } from "@/lib/metrics"
+
+// Metrics live in memory, so they must be read on every request rather than at build time
+export const dynamic = "force-dynamic"
+
+async function readMetrics(): Promise<Response> {
+  try {
+    return new Response(renderMetrics(), {
+      headers: {
+        "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    logger.error("rendering the metrics failed", { error })
+    return errorResponse(new OcrError("INTERNAL_ERROR", "The metrics could not be rendered"))
+  }
+}
+
+// Scrapes are free, so they are not rate limited, but they need a client key when keys are required
+export async function GET(request: NextRequest) {
+  return withApiAccess(request, readMetrics, { rateLimit: false })
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["GET"])
+}
@@ -0,0 +1,176 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { CACHE_MODES, parseCacheMode, resultCacheKey, withResultCache, type CacheInfo, type CacheMode } from "@/lib/cache"
+import type { AuthenticatedClient } from "@/lib/client-keys"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { getServerConfig, type ServerConfig } from "@/lib/config"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse, toApiError, type ApiError } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import { checkUploadSize, loadOcrDocument, parseDpi, recognizeDocument, type OcrDocument, type OcrResult } from "@/lib/ocr"
+import { MAX_PDF_DPI, MIN_PDF_DPI } from "@/lib/pdf"
+import { parsePreprocessing, type PreprocessingStep } from "@/lib/preprocessing"
+import { getOcrProvider } from "@/lib/providers"
+import { checkRateLimit, rateLimitSubjects, rateLimitedResponse, setRateLimitHeaders } from "@/lib/rate-limit"
+import { TILING_MODES, parseTiling, type TilingMode } from "@/lib/tiling"
+
+type BatchItemResult =
+  | ({ index: number; filename: string; status: "success"; cache: CacheInfo } & OcrResult)
+  | { index: number; filename: string; status: "error"; error: ApiError }
+
+// A batch file that was read and opened, or the error that keeps it from being recognized
+type PreparedBatchFile =
+  | { file: File; index: number; buffer: Buffer; document: OcrDocument }
+  | { file: File; index: number; error: unknown }
+
+// Parse the optional "concurrency" form field, falling back to OCR_BATCH_CONCURRENCY when absent
+function parseConcurrency(
+  value: FormDataEntryValue | null,
+  { batchConcurrency, maxBatchConcurrency }: ServerConfig,
+): number | null {
+  if (value === null || value === "") {
+    return Math.min(batchConcurrency, maxBatchConcurrency)
+  }
+  const concurrency = Number(value)
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > maxBatchConcurrency) {
+    return null
+  }
+  return concurrency
+}
+
+// Read and open one file, so its pages are counted before the batch is charged
+async function prepareBatchFile(file: File, index: number, dpi: number): Promise<PreparedBatchFile> {
+  try {
+    const sizeError = checkUploadSize(file)
+    if (sizeError) {
+      throw sizeError
+    }
+    const buffer = Buffer.from(await file.arrayBuffer())
+    return { file, index, buffer, document: await loadOcrDocument(buffer, file.type, dpi) }
+  } catch (error) {
+    return { file, index, error }
+  }
+}
+
+// Run one file through the OCR pipeline, turning any failure into an error entry for that file
+async function processBatchFile(
+  prepared: PreparedBatchFile,
+  dpi: number,
+  preprocessing: PreprocessingStep[],
+  tiling: TilingMode,
+  cacheMode: CacheMode,
+): Promise<BatchItemResult> {
+  const { file, index } = prepared
+  logger.info("processing batch file", { file: index + 1, mimeType: file.type, bytes: file.size })
+  try {
+    if ("error" in prepared) {
+      throw prepared.error
+    }
+    const { buffer, document } = prepared
+    const cacheKey = resultCacheKey(buffer, { format: "text", preprocessing, tiling, dpi })
+    const { result, cache } = await withResultCache(cacheKey, cacheMode, () =>
+      recognizeDocument(document, { preprocessing, tiling }),
+    )
+    return { index, filename: file.name, status: "success", ...result, cache }
+  } catch (error) {
+    logger.warn("batch file failed", { file: index + 1, error })
+    return { index, filename: file.name, status: "error", error: toApiError(error) }
+  }
+}
+
+async function recognizeBatch(request: NextRequest, client: AuthenticatedClient | null): Promise<Response> {
+  try {
+    const provider = getOcrProvider()
+    const configurationError = provider.configurationError()
+    if (configurationError) {
+      logger.error("OCR provider is not configured", { provider: provider.name, error: configurationError.message })
+      return errorResponse(configurationError)
+    }
+
+    const formData = await request.formData()
+    const entries = formData.getAll("images")
+
+    if (entries.length === 0) {
+      logger.warn("no image files provided")
+      return errorResponse(new OcrError("INVALID_REQUEST", "No image files provided"))
+    }
+    const textEntries = entries.flatMap((entry, index) => (typeof entry === "string" ? [index] : []))
+    if (textEntries.length > 0) {
+      logger.warn("batch entries are not files", { indexes: textEntries })
+      return errorResponse(
+        new OcrError("INVALID_REQUEST", "Every images entry must be a file upload", { indexes: textEntries }),
+      )
+    }
+    const files = entries.filter((entry): entry is File => typeof entry !== "string")
+    const config = getServerConfig()
+    const { maxBatchFiles } = config
+    if (files.length > maxBatchFiles) {
+      logger.warn("batch exceeds the file limit", { files: files.length, maxBatchFiles })
+      return errorResponse(new OcrError("INVALID_REQUEST", `A batch can contain at most ${maxBatchFiles} files`))
+    }
+
+    const dpi = parseDpi(formData.get("dpi"))
+    if (dpi === null) {
+      logger.warn("invalid DPI value", { dpi: formData.get("dpi") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `DPI must be a number between ${MIN_PDF_DPI} and ${MAX_PDF_DPI}`))
+    }
+
+    const concurrency = parseConcurrency(formData.get("concurrency"), config)
+    if (concurrency === null) {
+      logger.warn("invalid concurrency value", { concurrency: formData.get("concurrency") })
+      return errorResponse(
+        new OcrError("INVALID_REQUEST", `Concurrency must be an integer between 1 and ${config.maxBatchConcurrency}`),
+      )
+    }
+
+    const preprocessing = parsePreprocessing(formData.get("preprocessing"))
+
+    const tiling = parseTiling(formData.get("tiling"))
+    if (tiling === null) {
+      logger.warn("invalid tiling mode", { tiling: formData.get("tiling") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Tiling must be one of: ${TILING_MODES.join(", ")}`))
+    }
+
+    const cacheMode = parseCacheMode(formData.get("cache"), request.headers.get("cache-control"))
+    if (cacheMode === null) {
+      logger.warn("invalid cache mode", { cache: formData.get("cache") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Cache must be one of: ${CACHE_MODES.join(", ")}`))
+    }
+
+    const prepared = await mapWithConcurrency(files, concurrency, (file, index) => prepareBatchFile(file, index, dpi))
+
+    // Each page is at least one upstream call, so a batch is charged one request per page, once it is known
+    // to be valid. Files that cannot be read are never sent upstream, but a batch always costs one request.
+    const pages = prepared.reduce((total, item) => total + ("document" in item ? item.document.pageCount : 0), 0)
+    const rateLimit = await checkRateLimit(rateLimitSubjects(request, client), Math.max(pages, 1))
+    if (!rateLimit.allowed) {
+      return rateLimitedResponse(rateLimit)
+    }
+
+    logger.info("processing batch", { files: files.length, pages, concurrency })
+    const results = await mapWithConcurrency(prepared, concurrency, (item) =>
+      processBatchFile(item, dpi, preprocessing, tiling, cacheMode),
+    )
+
+    const succeeded = results.filter((result) => result.status === "success").length
+    logger.info("batch finished", { files: results.length, succeeded })
+
+    const response = NextResponse.json({
+      results,
+      summary: { total: results.length, succeeded, failed: results.length - succeeded },
+    })
+    return setRateLimitHeaders(response, rateLimit)
+  } catch (error) {
+    logger.error("batch request failed", { error })
+    return errorResponse(error)
+  }
+}
+
+// The batch is charged to the rate limit once its pages are counted and its fields validated
+export async function POST(request: NextRequest) {
+  return withApiAccess(request, (client) => recognizeBatch(request, client), { rateLimit: false })
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["POST"])
+}
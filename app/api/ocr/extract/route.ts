@@ -0,0 +1,93 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse } from "@/lib/errors"
+import {
+  InvalidSchemaError,
+  extractStructuredData,
+  resolveExtractionSchema,
+  type ExtractionSchema,
+} from "@/lib/extraction"
+import { logger } from "@/lib/logger"
+import { checkUploadSize, loadOcrDocument, parseDpi } from "@/lib/ocr"
+import { MAX_PDF_DPI, MIN_PDF_DPI } from "@/lib/pdf"
+import { parsePreprocessing } from "@/lib/preprocessing"
+import { getOcrProvider } from "@/lib/providers"
+
+// Extracts typed fields described by a named schema ("schemaName") or a JSON Schema ("schema")
+async function extractFields(request: NextRequest): Promise<Response> {
+  try {
+    const provider = getOcrProvider()
+    const configurationError = provider.configurationError()
+    if (configurationError) {
+      logger.error("OCR provider is not configured", { provider: provider.name, error: configurationError.message })
+      return errorResponse(configurationError)
+    }
+
+    const formData = await request.formData()
+    const image = formData.get("image") as File
+
+    if (!image) {
+      logger.warn("no image file provided")
+      return errorResponse(new OcrError("INVALID_REQUEST", "No image file provided"))
+    }
+
+    const sizeError = checkUploadSize(image)
+    if (sizeError) {
+      logger.warn("uploaded file is over the size limit", { bytes: image.size })
+      return errorResponse(sizeError)
+    }
+
+    const schemaName = formData.get("schemaName")
+    const schemaJson = formData.get("schema")
+    if ((schemaName === null) === (schemaJson === null)) {
+      logger.warn("extraction request must specify exactly one schema")
+      return errorResponse(new OcrError("INVALID_REQUEST", 'Provide either a "schemaName" or a JSON "schema", but not both'))
+    }
+
+    let schema: ExtractionSchema
+    try {
+      if (typeof schemaName === "string") {
+        schema = resolveExtractionSchema({ schemaName })
+      } else {
+        schema = resolveExtractionSchema({ jsonSchema: JSON.parse(String(schemaJson)) })
+      }
+    } catch (schemaError) {
+      logger.warn("invalid extraction schema", { error: schemaError })
+      return errorResponse(
+        schemaError instanceof InvalidSchemaError ? schemaError : new InvalidSchemaError("The schema is not valid JSON"),
+      )
+    }
+
+    const dpi = parseDpi(formData.get("dpi"))
+    if (dpi === null) {
+      logger.warn("invalid DPI value", { dpi: formData.get("dpi") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `DPI must be a number between ${MIN_PDF_DPI} and ${MAX_PDF_DPI}`))
+    }
+
+    const preprocessing = parsePreprocessing(formData.get("preprocessing"))
+
+    logger.info("received upload", { mimeType: image.type, bytes: image.size })
+
+    const originalBuffer = Buffer.from(await image.arrayBuffer())
+
+    const document = await loadOcrDocument(originalBuffer, image.type, dpi)
+
+    const result = await extractStructuredData(document, schema, { preprocessing })
+
+    logger.info("extraction finished", { attempts: result.attempts })
+    return NextResponse.json(result)
+  } catch (error) {
+    logger.error("extraction request failed", { error })
+
+    return errorResponse(error)
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withApiAccess(request, () => extractFields(request))
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["POST"])
+}
@@ -1,202 +1,191 @@
 import { type NextRequest, NextResponse } from "next/server"
-import OpenAI from "openai"
-import sharp from "sharp"
-
-// Function to create OpenAI client with proper error handling
-function createOpenAIClient() {
-  const apiKey = process.env.GRAVIXLAYER_API_KEY
-  
-  if (!apiKey) {
-    throw new Error("GRAVIXLAYER_API_KEY environment variable is required")
-  }
+import { toAlto } from "@/lib/alto"
+import { withApiAccess } from "@/lib/api-access"
+import { CACHE_MODES, parseCacheMode, resultCacheKey, withResultCache } from "@/lib/cache"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse, toApiError } from "@/lib/errors"
+import { toHocr } from "@/lib/hocr"
+import type { OcrLayoutPage } from "@/lib/layout"
+import { logger, requestTimings, timeStage } from "@/lib/logger"
+import {
+  OCR_OUTPUT_FORMATS,
+  checkUploadSize,
+  loadOcrDocument,
+  parseDpi,
+  parseOutputFormat,
+  recognizeDocument,
+  recognizeRegions,
+  type OcrOutputFormat,
+  type RecognizeOptions,
+} from "@/lib/ocr"
+import { MAX_PDF_DPI, MIN_PDF_DPI } from "@/lib/pdf"
+import { parsePreprocessing } from "@/lib/preprocessing"
+import { getOcrProvider } from "@/lib/providers"
+import { checkRegionBounds, parseRegions } from "@/lib/regions"
+import { checkSearchablePdfSource, createSearchablePdf } from "@/lib/searchable-pdf"
+import { createSseResponse } from "@/lib/sse"
+import { TILING_MODES, parseTiling } from "@/lib/tiling"
 
-  return new OpenAI({
-    apiKey: apiKey,
-    baseURL: "https://api.gravixlayer.com/v1/inference",
-  })
-}
+// Formats returned as a file rather than JSON, which therefore cannot be streamed
+const DOCUMENT_FORMATS: OcrOutputFormat[] = ["hocr", "alto", "pdf"]
 
-// Image processing function to enhance OCR accuracy
-async function processImageForOCR(imageBuffer: Buffer): Promise<Buffer> {
-  try {
-    console.log("SERVER LOG: Starting image preprocessing for OCR optimization...")
-    
-    // Get image metadata
-    const metadata = await sharp(imageBuffer).metadata()
-    console.log(`SERVER LOG: Original image - Width: ${metadata.width}, Height: ${metadata.height}, Format: ${metadata.format}`)
-    
-    let processedImage = sharp(imageBuffer)
-    
-    // 1. Convert to grayscale for better text recognition
-    processedImage = processedImage.grayscale()
-    
-    // 2. Enhance contrast and brightness
-    processedImage = processedImage.normalize()
-    
-    // 3. Resize if image is too small (min 1000px on longest side for better OCR)
-    if (metadata.width && metadata.height) {
-      const maxDimension = Math.max(metadata.width, metadata.height)
-      if (maxDimension < 1000) {
-        const scaleFactor = 1000 / maxDimension
-        processedImage = processedImage.resize({
-          width: Math.round(metadata.width * scaleFactor),
-          height: Math.round(metadata.height * scaleFactor),
-          kernel: sharp.kernel.lanczos3
-        })
-        console.log(`SERVER LOG: Upscaled image by factor ${scaleFactor.toFixed(2)}`)
-      }
-    }
-    
-    // 4. Sharpen the image for better text clarity
-    processedImage = processedImage.sharpen({
-      sigma: 1,
-      m1: 1,
-      m2: 2,
-      x1: 2,
-      y2: 10,
-      y3: 20
+// Serialize the recognized layout in one of the document formats
+async function renderDocumentResponse(
+  format: OcrOutputFormat,
+  layout: OcrLayoutPage[],
+  file: File,
+  originalBuffer: Buffer,
+): Promise<NextResponse> {
+  if (format === "pdf") {
+    const pdf = await timeStage("searchablePdf", () => createSearchablePdf(originalBuffer, file.type, layout))
+    const filename = `${file.name.replace(/\.[^.]+$/, "") || "document"}-searchable.pdf`
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename.replace(/["\\\r\n]/g, "_")}"`,
+      },
     })
-    
-    // 5. Apply gamma correction to improve contrast
-    processedImage = processedImage.gamma(1.2)
-    
-    // 6. Convert to PNG for lossless quality
-    const processedBuffer = await processedImage.png({ 
-      quality: 100,
-      compressionLevel: 0 
-    }).toBuffer()
-    
-    console.log(`SERVER LOG: Image preprocessing completed. Original size: ${imageBuffer.length} bytes, Processed size: ${processedBuffer.length} bytes`)
-    return processedBuffer
-    
-  } catch (error) {
-    console.error("SERVER ERROR: Image processing failed:", error)
-    console.log("SERVER LOG: Falling back to original image...")
-    return imageBuffer
   }
+
+  const body = format === "hocr" ? toHocr(layout, file.name) : toAlto(layout, file.name)
+  const contentType = format === "hocr" ? "text/html; charset=utf-8" : "application/xml; charset=utf-8"
+  return new NextResponse(body, { headers: { "Content-Type": contentType } })
 }
 
-export async function POST(request: NextRequest) {
-  console.log("--- OCR API Route Started ---")
+async function recognizeUpload(request: NextRequest): Promise<Response> {
   try {
-    // Log the API key being used (for debugging, remove in production)
-    const gravixApiKey = process.env.GRAVIXLAYER_API_KEY
-    if (!gravixApiKey) {
-      console.error("SERVER ERROR: GRAVIXLAYER_API_KEY environment variable is NOT set.")
-      return NextResponse.json({ error: "GRAVIXLAYER_API_KEY environment variable is not set" }, { status: 500 })
-    } else {
-      console.log(`SERVER LOG: GRAVIXLAYER_API_KEY is present. First 5 chars: ${gravixApiKey.substring(0, 5)}...`)
+    const provider = getOcrProvider()
+    const configurationError = provider.configurationError()
+    if (configurationError) {
+      logger.error("OCR provider is not configured", { provider: provider.name, error: configurationError.message })
+      return errorResponse(configurationError)
     }
+    logger.debug("using OCR provider", { provider: provider.name, model: provider.model })
 
     const formData = await request.formData()
     const image = formData.get("image") as File
 
     if (!image) {
-      console.error("SERVER ERROR: No image file provided in request.")
-      return NextResponse.json({ error: "No image file provided" }, { status: 400 })
+      logger.warn("no image file provided")
+      return errorResponse(new OcrError("INVALID_REQUEST", "No image file provided"))
+    }
+
+    const sizeError = checkUploadSize(image)
+    if (sizeError) {
+      logger.warn("uploaded file is over the size limit", { bytes: image.size })
+      return errorResponse(sizeError)
     }
 
-    console.log(`SERVER LOG: Received image file: ${image.name}, type: ${image.type}, size: ${image.size} bytes.`)
+    logger.info("received upload", { mimeType: image.type, bytes: image.size })
 
     // Convert image to buffer for processing
     const bytes = await image.arrayBuffer()
     const originalBuffer = Buffer.from(bytes)
     
-    // Process the image to enhance OCR accuracy
-    const processedBuffer = await processImageForOCR(originalBuffer)
-    
-    // Convert processed image to base64
-    const base64Image = processedBuffer.toString("base64")
-    const mimeType = "image/png" // Always PNG after processing
-    const dataUrl = `data:${mimeType};base64,${base64Image}`
-    console.log(`SERVER LOG: Processed image converted to base64. Data URL length: ${dataUrl.length} characters.`)
-
-    console.log("SERVER LOG: Attempting to call Gravix Layer API with model gemma3:12b...")
-    let completion: OpenAI.Chat.Completions.ChatCompletion
-
-    try {
-      // Create OpenAI client at runtime
-      const openai = createOpenAIClient()
-      
-      completion = await openai.chat.completions.create({
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: 'Extract all the text from the image. Make sure to only return the extracted text and nothing else.',
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: dataUrl,
-                },
-              },
-            ],
-          },
-        ],
-        model: "google/gemma-3-12b-it",
-        temperature: 0,
-        max_tokens: 2048,
-        top_p: 1,
-        seed: 0,
-        stream: false,
-      })
-      console.log("SERVER LOG: Successfully received response from Gravix Layer API.")
-    } catch (apiCallError) {
-      // This catch block specifically handles errors during the openai.chat.completions.create call
-      console.error("SERVER ERROR: Error during Gravix Layer API call:", apiCallError)
-      if (apiCallError instanceof OpenAI.APIError) {
-        console.error("SERVER ERROR: OpenAI API Error details:", {
-          status: apiCallError.status,
-          code: apiCallError.code,
-          type: apiCallError.type,
-          message: apiCallError.message,
-        })
-        // Re-throw to be caught by the outer try-catch for consistent client response
-        throw new Error(`Gravix Layer API error (${apiCallError.status || "unknown"}): ${apiCallError.message}`)
-      } else if (apiCallError instanceof Error) {
-        // Catch network errors or other generic errors from the SDK
-        console.error("SERVER ERROR: Non-APIError during Gravix Layer call:", apiCallError.message, apiCallError.stack)
-        throw new Error(`Network or SDK error during API call: ${apiCallError.message}`)
-      } else {
-        throw new Error("An unexpected error occurred during the API call.")
-      }
+    const dpi = parseDpi(formData.get("dpi"))
+    if (dpi === null) {
+      logger.warn("invalid DPI value", { dpi: formData.get("dpi") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `DPI must be a number between ${MIN_PDF_DPI} and ${MAX_PDF_DPI}`))
     }
 
-    // Ensure completion object and its properties are valid
-    if (!completion || !completion.choices || completion.choices.length === 0 || !completion.choices[0].message) {
-      console.error("SERVER ERROR: Unexpected completion structure from Gravix Layer.", completion)
-      return NextResponse.json({ error: "Unexpected response structure from Gravix Layer API" }, { status: 500 })
+    const format = parseOutputFormat(formData.get("format"))
+    if (format === null) {
+      logger.warn("invalid output format", { format: formData.get("format") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Format must be one of: ${OCR_OUTPUT_FORMATS.join(", ")}`))
     }
 
-    const extractedText = completion.choices[0]?.message?.content || "No text could be extracted from the image"
-    console.log("SERVER LOG: Extracted text (first 100 chars):", extractedText.substring(0, 100) + "...")
+    const preprocessing = parsePreprocessing(formData.get("preprocessing"))
 
-    console.log("--- OCR API Route Finished Successfully ---")
-    return NextResponse.json({ text: extractedText })
-  } catch (error) {
-    // This outer catch block handles errors from file processing or re-thrown errors from the API call
-    console.error("--- OCR API Route Failed ---")
-    console.error("SERVER ERROR: Final catch block error:", error)
+    const tiling = parseTiling(formData.get("tiling"))
+    if (tiling === null) {
+      logger.warn("invalid tiling mode", { tiling: formData.get("tiling") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Tiling must be one of: ${TILING_MODES.join(", ")}`))
+    }
 
-    if (error instanceof Error) {
-      // Check for specific error messages to provide more accurate client responses
-      if (error.message.includes("GRAVIXLAYER_API_KEY")) {
-        return NextResponse.json({ error: "GRAVIXLAYER_API_KEY environment variable is not set" }, { status: 500 })
-      }
-      if (error.message.includes("Invalid API key")) {
-        return NextResponse.json({ error: "Invalid API key" }, { status: 401 })
-      }
-      if (error.message.includes("Rate limit exceeded")) {
-        return NextResponse.json({ error: "Rate limit exceeded" }, { status: 429 })
+    const streamRequested = formData.get("stream") === "true"
+    if (streamRequested && DOCUMENT_FORMATS.includes(format)) {
+      logger.warn("streaming requested for a document format", { format })
+      return errorResponse(new OcrError("INVALID_REQUEST", "Streaming is only available for the text and layout formats"))
+    }
+
+    const regions = parseRegions(formData.get("regions"))
+
+    const cacheMode = parseCacheMode(formData.get("cache"), request.headers.get("cache-control"))
+    if (cacheMode === null) {
+      logger.warn("invalid cache mode", { cache: formData.get("cache") })
+      return errorResponse(new OcrError("INVALID_REQUEST", `Cache must be one of: ${CACHE_MODES.join(", ")}`))
+    }
+
+    const document = await loadOcrDocument(originalBuffer, image.type, dpi)
+    if (format === "pdf") {
+      await checkSearchablePdfSource(originalBuffer, image.type)
+    }
+    if (regions) {
+      if (document.kind === "pdf") {
+        logger.warn("regions requested for a PDF upload")
+        return errorResponse(new OcrError("INVALID_REQUEST", "Regions are only supported for image uploads"))
       }
-      // Generic server error for other unhandled issues
-      return NextResponse.json({ error: `Internal server error: ${error.message}` }, { status: 500 })
+      await checkRegionBounds(originalBuffer, regions)
+      logger.info("recognizing regions of the image", { regions: regions.length })
+    }
+
+    // Either the requested regions of the image or the whole document, unless the same upload was
+    // recognized with the same settings before
+    const cacheKey = resultCacheKey(originalBuffer, { format, preprocessing, tiling, dpi, regions })
+    const recognize = (options: RecognizeOptions) =>
+      withResultCache(cacheKey, cacheMode, () =>
+        regions ? recognizeRegions(originalBuffer, regions, options) : recognizeDocument(document, options),
+      )
+
+    // Streaming mode forwards stage changes and model tokens as Server-Sent Events
+    if (streamRequested) {
+      logger.info("streaming results over SSE", { format })
+      return createSseResponse(async (send, signal) => {
+        try {
+          const { result, cache } = await recognize({
+            format,
+            preprocessing,
+            tiling,
+            onStage: (stage, page, totalPages) => send(stage, { page, totalPages }),
+            onToken: (delta, page) => send("token", { page, text: delta }),
+            signal,
+          })
+          send("done", { ...result, cache })
+          logger.info("stream finished", { cache: cache.status, truncated: result.truncated, ...requestTimings() })
+        } catch (streamError) {
+          if (signal.aborted) {
+            logger.info("client disconnected; stopped streaming", requestTimings())
+            return
+          }
+          logger.error("streaming OCR failed", { error: streamError, ...requestTimings() })
+          send("error", { error: toApiError(streamError) })
+        }
+      })
+    }
+
+    const { result, cache } = await recognize({ format, preprocessing, tiling })
+    const cacheHeader = cache.status.toUpperCase()
+
+    if (DOCUMENT_FORMATS.includes(format)) {
+      const response = await renderDocumentResponse(format, result.layout ?? [], image, originalBuffer)
+      response.headers.set("X-Cache", cacheHeader)
+      return response
     }
 
-    // Fallback for truly unknown error types
-    return NextResponse.json({ error: "An unknown internal server error occurred." }, { status: 500 })
+    logger.info("recognition finished", { format, cache: cache.status, truncated: result.truncated })
+    return NextResponse.json({ ...result, cache }, { headers: { "X-Cache": cacheHeader } })
+  } catch (error) {
+    // This outer catch block handles errors from file processing or re-thrown errors from the API call
+    logger.error("OCR request failed", { error })
+
+    return errorResponse(error)
   }
 }
+
+export async function POST(request: NextRequest) {
+  return withApiAccess(request, () => recognizeUpload(request))
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["POST"])
+}
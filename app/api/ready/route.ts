@@ -0,0 +1,32 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import { checkReadiness } from "@/lib/readiness"
+
+// Configuration can change between deployments and sharp can break at runtime, so never cache the answer
+export const dynamic = "force-dynamic"
+// Next.js would otherwise cache the upstream probe's POST like any other fetch in a GET handler
+export const fetchCache = "force-no-store"
+
+async function readiness(probe: boolean): Promise<Response> {
+  try {
+    const report = await checkReadiness({ probe })
+    return NextResponse.json(report, { status: report.ready ? 200 : 503, headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    logger.error("running the readiness checks failed", { error })
+    const response = errorResponse(new OcrError("INTERNAL_ERROR", "The readiness checks could not be run"))
+    response.headers.set("Cache-Control", "no-store")
+    return response
+  }
+}
+
+// Readiness: 200 when this instance can serve OCR requests, 503 with the failing checks otherwise.
+// Like /api/health it needs no client key, so load balancers and orchestrators can call it. The upstream
+// probe is a billed completion, so it is only run for callers that could send OCR requests themselves.
+export async function GET(request: NextRequest) {
+  if (request.nextUrl.searchParams.get("probe") !== "upstream") {
+    return readiness(false)
+  }
+  return withApiAccess(request, () => readiness(true))
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { withApiAccess } from "@/lib/api-access"
+import { listCircuitBreakers } from "@/lib/circuit-breaker"
+import { preflightResponse } from "@/lib/cors"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import { getOcrProvider } from "@/lib/providers"
+
+// Breaker state lives in memory, so it must be read on every request rather than at build time
+export const dynamic = "force-dynamic"
+
+async function readStatus(): Promise<Response> {
+  try {
+    // Building the provider registers its circuit breaker, so it is listed even before the first OCR call
+    const provider = getOcrProvider()
+    const circuitBreaker = listCircuitBreakers().find((breaker) => breaker.name === provider.name) ?? null
+
+    return NextResponse.json({
+      provider: provider.name,
+      model: provider.model,
+      configured: provider.configurationError() === null,
+      circuitBreaker,
+    })
+  } catch (error) {
+    logger.error("reading the OCR status failed", { error })
+    return errorResponse(new OcrError("INTERNAL_ERROR", "The OCR status could not be read"))
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return withApiAccess(request, readStatus, { rateLimit: false })
+}
+
+export async function OPTIONS(request: NextRequest) {
+  return preflightResponse(request, ["GET"])
+}
@@ -1,6 +1,8 @@
 import type React from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
+import { ClientConfigProvider } from "@/components/config-provider"
+import { getClientConfig } from "@/lib/config"
 import "./globals.css"
 
 const inter = Inter({
@@ -9,6 +11,10 @@ const inter = Inter({
   variable: "--font-inter",
 })
 
+// Read the configuration on every request, so changing the environment takes effect on restart
+// rather than only when the app is rebuilt
+export const dynamic = "force-dynamic"
+
 export const metadata: Metadata = {
   title: "OCR Text Extractor",
   description: "Extract text from images using AI-powered OCR technology.",
@@ -22,7 +28,9 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en" className={inter.variable}>
-      <body className={`${inter.className} antialiased`}>{children}</body>
+      <body className={`${inter.className} antialiased`}>
+        <ClientConfigProvider config={getClientConfig()}>{children}</ClientConfigProvider>
+      </body>
     </html>
   )
 }
@@ -4,11 +4,79 @@ import type React from "react"
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
-import { Upload, Copy, Check, X } from "lucide-react"
+import { Upload, Copy, Check, X, FileDown } from "lucide-react"
+import { ClientKeyForm } from "@/components/client-key-form"
+import { useClientConfig } from "@/components/config-provider"
 import { SetupGuide } from "@/components/setup-guide"
 import { FormattedTextDisplay } from "@/components/formatted-text-display"
+import { RegionSelector, type SelectedRegion } from "@/components/region-selector"
+import type { ApiError, ApiErrorBody, ErrorCode } from "@/lib/errors"
+import type { OcrRegionResult } from "@/lib/ocr"
+import type { ReadinessReport } from "@/lib/readiness"
+import type { CropRegion } from "@/lib/regions"
+import { readOcrStream } from "@/lib/sse"
+import { formatFileSize } from "@/lib/utils"
+
+type ProcessingStage = "preprocessing" | "inference"
+
+// Errors that mean the server's OCR provider is not set up yet
+const SETUP_ERROR_CODES: ErrorCode[] = ["MISSING_API_KEY", "INVALID_API_KEY", "PROVIDER_NOT_CONFIGURED"]
+// Errors that mean the UI has to ask for a (different) client key
+const CLIENT_KEY_ERROR_CODES: ErrorCode[] = ["MISSING_CLIENT_KEY", "INVALID_CLIENT_KEY"]
+// Where the client key entered in the UI is kept between visits
+const CLIENT_KEY_STORAGE_KEY = "ocr-client-key"
+
+// Read the coded error from a failed response. Responses that never reached the API routes
+// (e.g. a proxy's 413 or 504 page) are not JSON, so they are classified by status instead.
+async function readApiError(response: Response): Promise<ApiError> {
+  const contentType = response.headers.get("content-type")
+  if (contentType && contentType.includes("application/json")) {
+    const body = (await response.json().catch(() => null)) as ApiErrorBody | null
+    if (body?.error?.code) {
+      return body.error
+    }
+  }
+
+  const code: ErrorCode =
+    response.status === 413 ? "PAYLOAD_TOO_LARGE" : response.status === 504 ? "UPSTREAM_TIMEOUT" : "INTERNAL_ERROR"
+  return { code, message: `Request failed with status ${response.status}`, retryable: response.status >= 500, details: null }
+}
+
+// Map regions drawn on the preview to pixels of the original image, which the server crops
+function toCropRegions(regions: SelectedRegion[], imageWidth: number, imageHeight: number): CropRegion[] {
+  return regions.map((region) => {
+    const x = Math.min(imageWidth - 1, Math.round(region.left * imageWidth))
+    const y = Math.min(imageHeight - 1, Math.round(region.top * imageHeight))
+    return {
+      x,
+      y,
+      width: Math.min(imageWidth - x, Math.max(1, Math.round(region.width * imageWidth))),
+      height: Math.min(imageHeight - y, Math.max(1, Math.round(region.height * imageHeight))),
+    }
+  })
+}
+
+// Turn an error into a message for the user
+function describeApiError(error: ApiError, maxUploadBytes: number): string {
+  switch (error.code) {
+    case "PAYLOAD_TOO_LARGE":
+      return `File must be under ${formatFileSize(maxUploadBytes)}`
+    case "INVALID_IMAGE":
+      return "The file could not be read. Please try a different image."
+    case "UPSTREAM_RATE_LIMITED":
+      return "Too many requests right now. Please wait a moment and try again."
+    case "UPSTREAM_TIMEOUT":
+    case "UPSTREAM_UNAVAILABLE":
+      return "The OCR service is temporarily unavailable. Please try again shortly."
+    case "INTERNAL_ERROR":
+      return "An internal server error occurred. Please try again later."
+    default:
+      return error.message
+  }
+}
 
 export default function OCRApp() {
+  const { maxUploadBytes, clientKeysRequired } = useClientConfig()
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
   const [resizedPreviewUrl, setResizedPreviewUrl] = useState<string | null>(null)
@@ -19,9 +87,22 @@ export default function OCRApp() {
   const [processingTime, setProcessingTime] = useState<number | null>(null)
   const [isDragOver, setIsDragOver] = useState(false)
   const [showSetupGuide, setShowSetupGuide] = useState(false)
-
-  // Function to resize image for display while maintaining aspect ratio
-  const resizeImageForDisplay = (file: File): Promise<string> => {
+  const [processingStage, setProcessingStage] = useState<ProcessingStage | null>(null)
+  const [isDownloadingPdf, setIsDownloadingPdf] = useState(false)
+  const [isTruncated, setIsTruncated] = useState(false)
+  // The server answered with the result of an earlier upload of the same image
+  const [isCached, setIsCached] = useState(false)
+  // Size of the original image, which regions drawn on the preview are scaled back to
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null)
+  const [selectedRegions, setSelectedRegions] = useState<SelectedRegion[]>([])
+  const [regionResults, setRegionResults] = useState<OcrRegionResult[]>([])
+  // Sent as "Authorization: Bearer <key>" with every API call once entered
+  const [clientKey, setClientKey] = useState<string | null>(null)
+  // Why the client key form is shown, or null while it is hidden
+  const [clientKeyPrompt, setClientKeyPrompt] = useState<string | null>(null)
+
+  // Function to resize image for display while maintaining aspect ratio; also reports the original size
+  const resizeImageForDisplay = (file: File): Promise<{ url: string; width: number; height: number }> => {
     return new Promise((resolve) => {
       const canvas = document.createElement('canvas')
       const ctx = canvas.getContext('2d')!
@@ -32,7 +113,9 @@ export default function OCRApp() {
         const maxWidth = 500   // Conservative max width for container
         const maxHeight = 350  // Conservative max height for container
         
-        let { width, height } = img
+        const { width: originalWidth, height: originalHeight } = img
+        let width = originalWidth
+        let height = originalHeight
         
         // Calculate scaling factor to fit within container
         const scaleX = maxWidth / width
@@ -47,13 +130,62 @@ export default function OCRApp() {
         canvas.height = height
         
         ctx.drawImage(img, 0, 0, width, height)
-        resolve(canvas.toDataURL('image/jpeg', 0.9))
+        resolve({ url: canvas.toDataURL('image/jpeg', 0.9), width: originalWidth, height: originalHeight })
       }
       
       img.src = URL.createObjectURL(file)
     })
   }
 
+  // Load the stored client key, and ask for one up front when the server requires it
+  useEffect(() => {
+    const storedKey = window.localStorage.getItem(CLIENT_KEY_STORAGE_KEY)
+    setClientKey(storedKey)
+    if (clientKeysRequired && !storedKey) {
+      setClientKeyPrompt("This server only accepts requests with a client key")
+    }
+  }, [clientKeysRequired])
+
+  const saveClientKey = (key: string | null) => {
+    if (key) {
+      window.localStorage.setItem(CLIENT_KEY_STORAGE_KEY, key)
+    } else {
+      window.localStorage.removeItem(CLIENT_KEY_STORAGE_KEY)
+    }
+    setClientKey(key)
+    setClientKeyPrompt(key || !clientKeysRequired ? null : "This server only accepts requests with a client key")
+    setError(null)
+  }
+
+  const authorizationHeaders = (): Record<string, string> => (clientKey ? { Authorization: `Bearer ${clientKey}` } : {})
+
+  // Show the matching guide for errors the user or the administrator has to fix
+  const showGuidanceFor = (apiError: ApiError) => {
+    setShowSetupGuide(SETUP_ERROR_CODES.includes(apiError.code))
+    if (CLIENT_KEY_ERROR_CODES.includes(apiError.code)) {
+      setClientKeyPrompt(apiError.message)
+    }
+  }
+
+  // Ask the server whether its OCR provider is set up, so the setup guide shows before the first upload
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/ready")
+      .then((response) => response.json() as Promise<ReadinessReport>)
+      .then((report) => {
+        const needsSetup = report.checks?.some((check) => check.status === "fail" && check.code !== null && SETUP_ERROR_CODES.includes(check.code))
+        if (!cancelled && needsSetup) {
+          setShowSetupGuide(true)
+        }
+      })
+      .catch(() => {
+        // The check is only a hint; an unreachable server is reported when the user uploads
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -100,22 +232,26 @@ export default function OCRApp() {
 
   const processFile = async (file: File) => {
     if (file.type.startsWith("image/")) {
-      if (file.size > 10 * 1024 * 1024) {
-        setError("File must be under 10MB")
+      if (file.size > maxUploadBytes) {
+        setError(`File must be under ${formatFileSize(maxUploadBytes)}`)
         return
       }
       setSelectedFile(file)
       setError(null)
       setExtractedText("")
       setProcessingTime(null)
+      setSelectedRegions([])
+      setRegionResults([])
+      setImageSize(null)
 
       const url = URL.createObjectURL(file)
       setPreviewUrl(url)
       
       // Create resized version for display
       try {
-        const resizedUrl = await resizeImageForDisplay(file)
-        setResizedPreviewUrl(resizedUrl)
+        const resized = await resizeImageForDisplay(file)
+        setResizedPreviewUrl(resized.url)
+        setImageSize({ width: resized.width, height: resized.height })
       } catch (error) {
         console.error("Error resizing image:", error)
         setResizedPreviewUrl(url) // Fall back to original
@@ -147,7 +283,8 @@ export default function OCRApp() {
     }
   }
 
-  const handleOCR = async (fileToProcess?: File) => {
+  // Recognize the whole image, or only the given regions of it, each with its own result
+  const handleOCR = async (fileToProcess?: File, regions?: CropRegion[]) => {
     const file = fileToProcess || selectedFile
     if (!file) return
 
@@ -155,76 +292,73 @@ export default function OCRApp() {
     setError(null)
     setExtractedText("")
     setProcessingTime(null)
+    setProcessingStage(null)
+    setIsTruncated(false)
+    setIsCached(false)
+    setRegionResults([])
 
     const startTime = Date.now()
 
     try {
       const formData = new FormData()
       formData.append("image", file)
+      formData.append("stream", "true")
+      if (regions && regions.length > 0) {
+        formData.append("regions", JSON.stringify(regions))
+      }
 
       const response = await fetch("/api/ocr", {
         method: "POST",
+        headers: authorizationHeaders(),
         body: formData,
       })
 
-      const endTime = Date.now()
-      setProcessingTime(endTime - startTime)
-
       if (!response.ok) {
-        let errorMessage = "Processing failed"
-        const contentType = response.headers.get("content-type")
-
-        if (contentType && contentType.includes("application/json")) {
-          const errorData = await response.json()
-          errorMessage = errorData.error || errorMessage
-        } else {
-          // If not JSON, read as text
-          errorMessage = await response.text()
-          // Truncate long error messages for display
-          if (errorMessage.length > 200) {
-            errorMessage = errorMessage.substring(0, 200) + "..."
-          }
-          // Try to make it more user-friendly if it's a common server error
-          if (errorMessage.toLowerCase().includes("internal server error")) {
-            errorMessage = "An internal server error occurred. Please try again later."
-          } else if (errorMessage.toLowerCase().includes("forbidden")) {
-            errorMessage = "Access forbidden. Check your API key permissions."
-          } else if (errorMessage.toLowerCase().includes("not found")) {
-            errorMessage = "Resource not found. The API endpoint might be incorrect."
-          }
-        }
-
-        // Show setup guide if API key is missing based on the error message content
-        if (
-          errorMessage.includes("API key") ||
-          errorMessage.includes("environment variable") ||
-          errorMessage.includes("Invalid API key")
-        ) {
-          setShowSetupGuide(true)
-        } else {
-          setShowSetupGuide(false) // Hide if it's not an API key issue
-        }
+        const apiError = await readApiError(response)
+        showGuidanceFor(apiError)
+        throw new Error(describeApiError(apiError, maxUploadBytes))
+      }
 
-        throw new Error(errorMessage)
+      if (!response.body) {
+        throw new Error("The server returned an empty response")
       }
 
-      const data = await response.json()
+      // Render tokens as they stream in; the final "done" event carries the complete text
+      const { result, error: failure } = await readOcrStream(response.body, {
+        onStage: setProcessingStage,
+        onText: setExtractedText,
+      })
 
-      if (data.error) {
-        throw new Error(data.error)
+      if (failure) {
+        showGuidanceFor(failure)
+        throw new Error(describeApiError(failure, maxUploadBytes))
+      }
+      if (!result) {
+        throw new Error("The connection closed before text extraction finished")
       }
 
-      setExtractedText(data.text)
+      setIsTruncated(result.truncated === true)
+      setRegionResults(result.regions ?? [])
+      setIsCached(result.cache?.status === "hit")
+      setExtractedText(result.text ?? "")
+      setProcessingTime(Date.now() - startTime)
       setShowSetupGuide(false)
+      setClientKeyPrompt(null)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to extract text"
       setError(errorMessage)
       setProcessingTime(null)
     } finally {
       setIsLoading(false)
+      setProcessingStage(null)
     }
   }
 
+  const handleExtractRegions = () => {
+    if (!selectedFile || !imageSize || selectedRegions.length === 0) return
+    handleOCR(selectedFile, toCropRegions(selectedRegions, imageSize.width, imageSize.height))
+  }
+
   const handleCopy = async () => {
     if (extractedText) {
       await navigator.clipboard.writeText(extractedText)
@@ -233,6 +367,45 @@ export default function OCRApp() {
     }
   }
 
+  // Request a searchable PDF (original image plus invisible text layer) and save it
+  const handleDownloadPdf = async () => {
+    if (!selectedFile) return
+
+    setIsDownloadingPdf(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append("image", selectedFile)
+      formData.append("format", "pdf")
+
+      const response = await fetch("/api/ocr", {
+        method: "POST",
+        headers: authorizationHeaders(),
+        body: formData,
+      })
+
+      if (!response.ok) {
+        const apiError = await readApiError(response)
+        showGuidanceFor(apiError)
+        throw new Error(describeApiError(apiError, maxUploadBytes))
+      }
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `${selectedFile.name.replace(/\.[^.]+$/, "") || "document"}-searchable.pdf`
+      link.click()
+      // Revoking right after click() can cancel the download before the browser has read the blob
+      setTimeout(() => URL.revokeObjectURL(url), 60_000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create PDF")
+    } finally {
+      setIsDownloadingPdf(false)
+    }
+  }
+
   const clearFile = () => {
     setSelectedFile(null)
     setPreviewUrl(null)
@@ -241,6 +414,11 @@ export default function OCRApp() {
     setError(null)
     setCopied(false)
     setProcessingTime(null)
+    setIsTruncated(false)
+    setIsCached(false)
+    setImageSize(null)
+    setSelectedRegions([])
+    setRegionResults([])
     if (previewUrl) {
       URL.revokeObjectURL(previewUrl)
     }
@@ -255,6 +433,13 @@ export default function OCRApp() {
         </div>
       )}
 
+      {/* Client Key */}
+      {clientKeyPrompt && (
+        <div className="border-b border-zinc-800 bg-zinc-900 px-6 py-4 flex-shrink-0">
+          <ClientKeyForm currentKey={clientKey} message={clientKeyPrompt} onSave={saveClientKey} />
+        </div>
+      )}
+
       {/* Header */}
       <div className="border-b border-zinc-800/30 bg-zinc-950/50 backdrop-blur-sm flex-shrink-0">
         <div className="w-full pl-4 pr-8 py-6">
@@ -326,7 +511,7 @@ export default function OCRApp() {
                       </div>
                       <div className="space-y-2">
                         <p className="text-zinc-400 text-sm font-medium">Drop image or click to upload</p>
-                        <p className="text-zinc-600 text-xs">PNG, JPG, JPEG, WebP • Max 10MB</p>
+                        <p className="text-zinc-600 text-xs">PNG, JPG, JPEG, WebP • Max {formatFileSize(maxUploadBytes)}</p>
                       </div>
                     </div>
                   </label>
@@ -338,21 +523,51 @@ export default function OCRApp() {
                   {resizedPreviewUrl && (
                     <div className="flex-1 border border-zinc-800/60 rounded-lg overflow-hidden bg-zinc-950 relative group flex items-center justify-center min-h-0">
                       <div className="p-4">
-                        <img
-                          src={resizedPreviewUrl}
-                          alt="Preview"
-                          className="max-w-full max-h-full object-contain transition-transform duration-300 group-hover:scale-[1.02] rounded-md"
-                          style={{ 
-                            objectFit: 'contain',
-                            objectPosition: 'center',
-                            display: 'block'
-                          }}
+                        {/* Drag on the preview to select regions; the image no longer zooms on hover so boxes stay aligned */}
+                        <RegionSelector
+                          imageUrl={resizedPreviewUrl}
+                          regions={selectedRegions}
+                          onChange={setSelectedRegions}
+                          disabled={isLoading || !imageSize}
                         />
                       </div>
                       <div className="absolute inset-0 bg-gradient-to-t from-black/20 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
                     </div>
                   )}
 
+                  {/* Region Actions */}
+                  {resizedPreviewUrl && (
+                    <div className="flex items-center justify-between gap-3 pt-3 flex-shrink-0">
+                      <p className="text-xs text-zinc-500">
+                        {selectedRegions.length === 0
+                          ? "Drag on the image to extract only part of it"
+                          : `${selectedRegions.length} region${selectedRegions.length === 1 ? "" : "s"} selected`}
+                      </p>
+                      {selectedRegions.length > 0 && (
+                        <div className="flex items-center gap-2">
+                          <Button
+                            onClick={() => setSelectedRegions([])}
+                            disabled={isLoading}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-3 text-xs font-medium rounded-lg text-zinc-400 hover:text-white"
+                          >
+                            Clear regions
+                          </Button>
+                          <Button
+                            onClick={handleExtractRegions}
+                            disabled={isLoading}
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 px-4 text-xs font-medium rounded-lg border bg-zinc-800/50 border-zinc-700/50 text-zinc-300 hover:bg-zinc-700/50 hover:border-zinc-600 hover:text-white"
+                          >
+                            Extract regions ({selectedRegions.length})
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Processing Status */}
                   {isLoading && (
                     <div className="flex items-center justify-center gap-3 py-6 bg-zinc-900/30 rounded-lg border border-zinc-800/40 flex-shrink-0">
@@ -360,7 +575,13 @@ export default function OCRApp() {
                         <div className="w-4 h-4 border-2 border-zinc-700 border-t-zinc-300 rounded-full animate-spin"></div>
                         <div className="absolute inset-0 w-4 h-4 border-2 border-transparent border-t-white/20 rounded-full animate-spin" style={{ animationDirection: 'reverse', animationDuration: '1.5s' }}></div>
                       </div>
-                      <span className="text-xs text-zinc-400 font-medium tracking-wide">PROCESSING IMAGE...</span>
+                      <span className="text-xs text-zinc-400 font-medium tracking-wide">
+                        {processingStage === "preprocessing"
+                          ? "PREPROCESSING IMAGE..."
+                          : processingStage === "inference"
+                            ? "EXTRACTING TEXT..."
+                            : "PROCESSING IMAGE..."}
+                      </span>
                     </div>
                   )}
                 </div>
@@ -387,6 +608,22 @@ export default function OCRApp() {
                   <div className="text-xs text-zinc-600 font-mono">
                     {extractedText.length} chars
                   </div>
+                  <Button
+                    onClick={handleDownloadPdf}
+                    disabled={isDownloadingPdf || isLoading}
+                    variant="ghost"
+                    size="sm"
+                    className="transition-all duration-200 px-4 py-2 h-8 text-xs font-medium rounded-lg border bg-zinc-800/50 border-zinc-700/50 text-zinc-300 hover:bg-zinc-700/50 hover:border-zinc-600 hover:text-white"
+                  >
+                    <span className="flex items-center gap-1.5">
+                      {isDownloadingPdf ? (
+                        <div className="w-3.5 h-3.5 border-2 border-zinc-600 border-t-zinc-300 rounded-full animate-spin" />
+                      ) : (
+                        <FileDown className="w-3.5 h-3.5" />
+                      )}
+                      {isDownloadingPdf ? "Creating PDF..." : "Download PDF"}
+                    </span>
+                  </Button>
                   <Button
                     onClick={handleCopy}
                     variant="ghost"
@@ -416,17 +653,34 @@ export default function OCRApp() {
             {/* Text Display */}
             <div className="flex-1 border border-zinc-800/60 rounded-lg overflow-hidden bg-zinc-950/50 backdrop-blur-sm relative min-h-0">
               <div className="w-full h-full overflow-auto p-4">
-                <FormattedTextDisplay
-                  text={extractedText}
-                  className="w-full h-full text-xs leading-relaxed text-zinc-300 min-h-full"
-                  placeholder={
-                    isLoading 
-                      ? "Processing image and extracting text..." 
-                      : selectedFile 
-                        ? "Text will appear here once processing is complete"
-                        : "Upload an image to extract text with AI-powered OCR"
-                  }
-                />
+                {regionResults.length > 0 ? (
+                  <div className="space-y-4">
+                    {regionResults.map((result) => (
+                      <div key={result.region} className="space-y-1.5">
+                        <div className="text-[10px] text-blue-300 font-mono font-semibold tracking-wide">
+                          REGION {result.region}
+                        </div>
+                        <FormattedTextDisplay
+                          text={result.text}
+                          className="w-full text-xs leading-relaxed text-zinc-300"
+                          placeholder="No text found in this region"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <FormattedTextDisplay
+                    text={extractedText}
+                    className="w-full h-full text-xs leading-relaxed text-zinc-300 min-h-full"
+                    placeholder={
+                      isLoading 
+                        ? "Processing image and extracting text..." 
+                        : selectedFile 
+                          ? "Text will appear here once processing is complete"
+                          : "Upload an image to extract text with AI-powered OCR"
+                    }
+                  />
+                )}
               </div>
               {!extractedText && !isLoading && (
                 <div className="absolute bottom-4 right-4 text-zinc-700 text-xs font-mono">
@@ -435,6 +689,15 @@ export default function OCRApp() {
               )}
             </div>
 
+            {/* Truncation Warning */}
+            {extractedText && isTruncated && (
+              <div className="p-3 border border-amber-900/50 rounded-lg bg-amber-950/20 flex-shrink-0">
+                <p className="text-amber-300 text-xs leading-relaxed">
+                  This image has more text than the model could return, so the end of the text is missing.
+                </p>
+              </div>
+            )}
+
             {/* Text Stats */}
             {extractedText && processingTime && (
               <div className="flex justify-between items-center text-xs text-zinc-600 px-1 flex-shrink-0">
@@ -444,7 +707,7 @@ export default function OCRApp() {
                   <span className="font-mono">{extractedText.split('\n').length} lines</span>
                 </div>
                 <span className="font-mono bg-zinc-900/50 px-2 py-1 rounded text-green-400">
-                  {processingTime}ms
+                  {processingTime}ms{isCached && " · cached"}
                 </span>
               </div>
             )}
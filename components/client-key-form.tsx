@@ -0,0 +1,83 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Lock } from "lucide-react"
+
+interface ClientKeyFormProps {
+  // The key the UI currently sends, if any
+  currentKey: string | null
+  // Why the form is shown, e.g. the server rejected the stored key
+  message: string
+  onSave: (key: string | null) => void
+}
+
+// Asks for the client key the web UI sends with its API calls when the server requires one
+export function ClientKeyForm({ currentKey, message, onSave }: ClientKeyFormProps) {
+  const [value, setValue] = useState("")
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (value.trim()) {
+      onSave(value.trim())
+      setValue("")
+    }
+  }
+
+  return (
+    <Card className="bg-gradient-to-r from-zinc-900 to-zinc-800 border-zinc-700/50 p-6 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-gradient-to-br from-amber-900 to-amber-800 rounded-lg flex items-center justify-center">
+            <Lock className="w-4 h-4 text-amber-200" />
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-white">Client Key Required</h3>
+            <p className="text-xs text-zinc-400 mt-1">{message}</p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            type="password"
+            autoComplete="off"
+            placeholder="ocr_..."
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className="h-8 bg-black/50 border-zinc-700/50 font-mono text-xs text-zinc-200"
+          />
+          <Button
+            type="submit"
+            disabled={!value.trim()}
+            variant="ghost"
+            size="sm"
+            className="h-8 px-4 text-xs font-medium rounded-lg border bg-zinc-800/50 border-zinc-700/50 text-zinc-300 hover:bg-zinc-700/50 hover:border-zinc-600 hover:text-white"
+          >
+            Save key
+          </Button>
+          {currentKey && (
+            <Button
+              type="button"
+              onClick={() => onSave(null)}
+              variant="ghost"
+              size="sm"
+              className="h-8 px-3 text-xs font-medium rounded-lg text-zinc-400 hover:text-white"
+            >
+              Forget key
+            </Button>
+          )}
+        </div>
+
+        <div className="pt-2 border-t border-zinc-800 text-xs text-zinc-500">
+          <p>
+            Ask the administrator for a key issued with <span className="font-mono text-zinc-400">npm run client-keys -- issue</span>.
+            It is kept in this browser only.
+          </p>
+        </div>
+      </form>
+    </Card>
+  )
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import { createContext, useContext, type ReactNode } from "react"
+import type { ClientConfig } from "@/lib/config"
+
+const ClientConfigContext = createContext<ClientConfig | null>(null)
+
+// Hands the browser-safe part of the server configuration, read by the root layout, to client components
+export function ClientConfigProvider({ config, children }: { config: ClientConfig; children: ReactNode }) {
+  return <ClientConfigContext.Provider value={config}>{children}</ClientConfigContext.Provider>
+}
+
+export function useClientConfig(): ClientConfig {
+  const config = useContext(ClientConfigContext)
+  if (!config) {
+    throw new Error("useClientConfig must be used inside a ClientConfigProvider")
+  }
+  return config
+}
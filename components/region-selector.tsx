@@ -0,0 +1,122 @@
+"use client"
+
+import type React from "react"
+import { useRef, useState } from "react"
+import { X } from "lucide-react"
+
+// A rectangle of the image as fractions of its width and height, so it survives any display scale
+export interface SelectedRegion {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+interface RegionSelectorProps {
+  imageUrl: string
+  regions: SelectedRegion[]
+  onChange: (regions: SelectedRegion[]) => void
+  maxRegions?: number
+  disabled?: boolean
+}
+
+// Rectangles smaller than this many display pixels are treated as stray clicks
+const MIN_DRAG_PIXELS = 6
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+export function RegionSelector({ imageUrl, regions, onChange, maxRegions = 20, disabled = false }: RegionSelectorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<SelectedRegion | null>(null)
+
+  // Pointer position as fractions of the displayed image
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect()
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) }
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled || e.button !== 0 || regions.length >= maxRegions) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    setDragStart(pointerPosition(e))
+    setDraft(null)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return
+    const { x, y } = pointerPosition(e)
+    setDraft({
+      left: Math.min(dragStart.x, x),
+      top: Math.min(dragStart.y, y),
+      width: Math.abs(x - dragStart.x),
+      height: Math.abs(y - dragStart.y),
+    })
+  }
+
+  const handlePointerUp = () => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (draft && rect && draft.width * rect.width >= MIN_DRAG_PIXELS && draft.height * rect.height >= MIN_DRAG_PIXELS) {
+      onChange([...regions, draft])
+    }
+    setDragStart(null)
+    setDraft(null)
+  }
+
+  const removeRegion = (index: number) => {
+    onChange(regions.filter((_, regionIndex) => regionIndex !== index))
+  }
+
+  const toStyle = (region: SelectedRegion): React.CSSProperties => ({
+    left: `${region.left * 100}%`,
+    top: `${region.top * 100}%`,
+    width: `${region.width * 100}%`,
+    height: `${region.height * 100}%`,
+  })
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative inline-block select-none touch-none ${disabled ? "" : "cursor-crosshair"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <img
+        src={imageUrl}
+        alt="Preview"
+        draggable={false}
+        className="block max-w-full max-h-full object-contain rounded-md"
+      />
+
+      {regions.map((region, index) => (
+        <div
+          key={index}
+          className="absolute border-2 border-blue-400 bg-blue-400/10 rounded-sm"
+          style={toStyle(region)}
+        >
+          <span className="absolute -top-px -left-px bg-blue-400 text-black text-[10px] font-mono font-semibold px-1 rounded-br-sm">
+            {index + 1}
+          </span>
+          {!disabled && (
+            <button
+              type="button"
+              aria-label={`Remove region ${index + 1}`}
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => removeRegion(index)}
+              className="absolute -top-2 -right-2 w-4 h-4 rounded-full bg-zinc-900 border border-blue-400 text-blue-300 hover:text-white flex items-center justify-center"
+            >
+              <X className="w-2.5 h-2.5" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      {draft && (
+        <div className="absolute border-2 border-dashed border-blue-300 bg-blue-300/10 rounded-sm pointer-events-none" style={toStyle(draft)} />
+      )}
+    </div>
+  )
+}
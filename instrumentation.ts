@@ -0,0 +1,8 @@
+// Runs once when the server starts. The configuration is only checked in the Node.js runtime; the
+// import stays inside the condition so the edge bundle does not pull in Node.js modules.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { checkConfigurationAtStartup } = await import("@/lib/startup")
+    checkConfigurationAtStartup()
+  }
+}
@@ -0,0 +1,64 @@
+import type { BoundingBox, OcrLayoutPage } from "@/lib/layout"
+import { escapeXml } from "@/lib/xml"
+
+const ALTO_NAMESPACE = "http://www.loc.gov/standards/alto/ns-v4#"
+const ALTO_SCHEMA_LOCATION = "http://www.loc.gov/standards/alto/v4/alto-4-2.xsd"
+
+// ALTO positions every element with HPOS/VPOS/WIDTH/HEIGHT attributes
+function positionAttributes(box: BoundingBox): string {
+  return `HPOS="${box.x}" VPOS="${box.y}" WIDTH="${box.width}" HEIGHT="${box.height}"`
+}
+
+// Serialize layout pages as an ALTO 4.2 document with pixel measurements
+export function toAlto(layout: OcrLayoutPage[], filename: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<alto xmlns="${ALTO_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${ALTO_NAMESPACE} ${ALTO_SCHEMA_LOCATION}">`,
+    "  <Description>",
+    "    <MeasurementUnit>pixel</MeasurementUnit>",
+    "    <sourceImageInformation>",
+    `      <fileName>${escapeXml(filename)}</fileName>`,
+    "    </sourceImageInformation>",
+    '    <Processing ID="OCR_0">',
+    "      <processingSoftware>",
+    "        <softwareName>GravixOCR</softwareName>",
+    "      </processingSoftware>",
+    "    </Processing>",
+    "  </Description>",
+    "  <Layout>",
+  ]
+
+  for (const page of layout) {
+    const p = page.page
+    const pageBox = { x: 0, y: 0, width: page.width, height: page.height }
+    lines.push(`    <Page ID="page_${p}" PHYSICAL_IMG_NR="${p}" WIDTH="${page.width}" HEIGHT="${page.height}">`)
+    lines.push(`      <PrintSpace ${positionAttributes(pageBox)}>`)
+
+    page.blocks.forEach((block, blockIndex) => {
+      const blockId = `${p}_${blockIndex + 1}`
+      lines.push(`        <TextBlock ID="block_${blockId}" ${positionAttributes(block.bbox)}>`)
+
+      block.lines.forEach((line, lineIndex) => {
+        const lineId = `${blockId}_${lineIndex + 1}`
+        lines.push(`          <TextLine ID="line_${lineId}" ${positionAttributes(line.bbox)}>`)
+        line.words.forEach((word, wordIndex) => {
+          if (wordIndex > 0) {
+            lines.push("            <SP/>")
+          }
+          lines.push(
+            `            <String ID="string_${lineId}_${wordIndex + 1}" CONTENT="${escapeXml(word.text)}" ${positionAttributes(word.bbox)}/>`,
+          )
+        })
+        lines.push("          </TextLine>")
+      })
+
+      lines.push("        </TextBlock>")
+    })
+
+    lines.push("      </PrintSpace>")
+    lines.push("    </Page>")
+  }
+
+  lines.push("  </Layout>", "</alto>", "")
+  return lines.join("\n")
+}
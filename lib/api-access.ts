@@ -0,0 +1,54 @@
+import { authenticateClient, type AuthenticatedClient } from "@/lib/client-keys"
+import { isOriginAllowed, originNotAllowedError, setCorsHeaders } from "@/lib/cors"
+import { errorResponse, toApiError } from "@/lib/errors"
+import { logger, runWithRequestContext } from "@/lib/logger"
+import { httpRequestDuration, httpRequests, routeLabel } from "@/lib/metrics"
+import { checkRateLimit, rateLimitSubjects, rateLimitedResponse, setRateLimitHeaders } from "@/lib/rate-limit"
+
+export interface ApiAccessOptions {
+  // Charge the request to the client's rate limit before the handler runs. Routes that know their cost
+  // only after reading the body (e.g. batches) turn this off and call checkRateLimit() themselves.
+  rateLimit?: boolean
+}
+
+// Run an API handler for an allowed origin and client, in that order: reject other origins, check the
+// client key, charge the rate limit, then add CORS and RateLimit-* headers to the handler's response.
+// Everything runs under a request ID, returned in the X-Request-Id header, that tags the request's logs.
+export async function withApiAccess(
+  request: Request,
+  handler: (client: AuthenticatedClient | null) => Promise<Response>,
+  { rateLimit = true }: ApiAccessOptions = {},
+): Promise<Response> {
+  const startedAt = performance.now()
+  return runWithRequestContext(request, async () => {
+    let response: Response
+    try {
+      if (!isOriginAllowed(request)) {
+        throw originNotAllowedError(request)
+      }
+      const client = await authenticateClient(request)
+      if (client) {
+        logger.info("client authenticated", { clientId: client.id })
+      }
+
+      if (rateLimit) {
+        const decision = await checkRateLimit(rateLimitSubjects(request, client))
+        response = decision.allowed ? setRateLimitHeaders(await handler(client), decision) : rateLimitedResponse(decision)
+      } else {
+        response = await handler(client)
+      }
+    } catch (error) {
+      const apiError = toApiError(error)
+      logger.warn("request rejected before processing", { code: apiError.code, error: apiError.message })
+      response = errorResponse(error)
+      if (apiError.code === "MISSING_CLIENT_KEY" || apiError.code === "INVALID_CLIENT_KEY") {
+        response.headers.set("WWW-Authenticate", 'Bearer realm="ocr"')
+      }
+    }
+
+    const route = routeLabel(new URL(request.url).pathname)
+    httpRequests.inc({ route, method: request.method, status: String(response.status) })
+    httpRequestDuration.observe((performance.now() - startedAt) / 1000, { route })
+    return setCorsHeaders(response, request)
+  })
+}
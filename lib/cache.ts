@@ -0,0 +1,259 @@
+import { createHash } from "crypto"
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises"
+import path from "path"
+import { DEFAULT_CACHE_DIR, DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTL_MS, getServerConfig } from "@/lib/config"
+import { globalSingleton } from "@/lib/global-singleton"
+import { logger } from "@/lib/logger"
+import { NO_TEXT_FOUND, RECOGNITION_PROMPTS, type OcrOutputFormat, type OcrResult } from "@/lib/ocr"
+import type { PreprocessingStep } from "@/lib/preprocessing"
+import type { CropRegion } from "@/lib/regions"
+import type { TilingMode } from "@/lib/tiling"
+
+// Bump when the shape of OcrResult or of the key changes, so entries written by older code are ignored
+const CACHE_KEY_VERSION = 2
+
+export type CacheBackend = "memory" | "file" | "off"
+
+// "use" answers from the cache when it can; "bypass" recognizes the upload again and replaces the cached result
+export type CacheMode = "use" | "bypass"
+
+export const CACHE_MODES: CacheMode[] = ["use", "bypass"]
+
+// "off" means no cache is configured
+export type CacheStatus = "hit" | "miss" | "bypass" | "off"
+
+export interface CachedResult {
+  result: OcrResult
+  storedAt: string
+}
+
+// Cache metadata returned with every result
+export interface CacheInfo {
+  status: CacheStatus
+  key: string | null
+  // When the returned result was recognized
+  storedAt: string | null
+}
+
+// Storage backend for results. Implement this to share the cache across instances; see createRedisCache().
+export interface ResultCache {
+  readonly name: string
+  get(key: string): Promise<CachedResult | null>
+  set(key: string, entry: CachedResult): Promise<void>
+}
+
+// Read from the environment by lib/config.ts
+export interface CacheConfig {
+  backend: CacheBackend
+  ttlMs: number
+  // Only used by the memory backend
+  maxEntries: number
+  // Only used by the file backend
+  directory: string
+}
+
+const isExpired = (entry: CachedResult, ttlMs: number) => Date.now() - Date.parse(entry.storedAt) > ttlMs
+
+// Least-recently-used cache in process memory. Results only live as long as the server process.
+export function createMemoryCache(
+  maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES,
+  ttlMs: number = DEFAULT_CACHE_TTL_MS,
+): ResultCache {
+  // Map iteration follows insertion order, so re-inserting on each read keeps the oldest entry first
+  const entries = new Map<string, CachedResult>()
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key)
+      if (!entry) {
+        return null
+      }
+      entries.delete(key)
+      if (isExpired(entry, ttlMs)) {
+        return null
+      }
+      entries.set(key, entry)
+      return entry
+    },
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string)
+      }
+    },
+  }
+}
+
+// One JSON file per result, which survives restarts and can be shared by processes on the same machine.
+// Expired files are removed when they are next read; nothing limits the size of the directory.
+export function createFileCache(directory: string = DEFAULT_CACHE_DIR, ttlMs: number = DEFAULT_CACHE_TTL_MS): ResultCache {
+  // Keys are hex digests, so they are safe file names
+  const fileFor = (key: string) => path.join(directory, `${key}.json`)
+
+  return {
+    name: "file",
+    async get(key) {
+      let entry: CachedResult
+      try {
+        entry = JSON.parse(await readFile(fileFor(key), "utf8")) as CachedResult
+      } catch (readError) {
+        if ((readError as NodeJS.ErrnoException).code === "ENOENT") {
+          return null
+        }
+        throw readError
+      }
+      if (isExpired(entry, ttlMs)) {
+        await rm(fileFor(key), { force: true })
+        return null
+      }
+      return entry
+    },
+    async set(key, entry) {
+      await mkdir(directory, { recursive: true })
+      // Write to a temporary file and rename it, so a concurrent reader never sees half a result
+      const temporaryFile = `${fileFor(key)}.${process.pid}.${Date.now()}.tmp`
+      await writeFile(temporaryFile, JSON.stringify(entry))
+      await rename(temporaryFile, fileFor(key))
+    },
+  }
+}
+
+// The two commands the cache needs from a Redis-compatible client. Wrap your client to match, e.g. with ioredis:
+//   { get: (key) => redis.get(key), set: (key, value, ttlMs) => redis.set(key, value, "PX", ttlMs) }
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<unknown>
+}
+
+// Cache shared by every instance that talks to the same Redis-compatible server. Expiry is left to the server.
+export function createRedisCache(
+  client: RedisLikeClient,
+  { ttlMs = DEFAULT_CACHE_TTL_MS, prefix = "ocr:result:" }: { ttlMs?: number; prefix?: string } = {},
+): ResultCache {
+  return {
+    name: "redis",
+    async get(key) {
+      const value = await client.get(prefix + key)
+      return value === null ? null : (JSON.parse(value) as CachedResult)
+    },
+    async set(key, entry) {
+      await client.set(prefix + key, JSON.stringify(entry), ttlMs)
+    },
+  }
+}
+
+export function createResultCache(config: CacheConfig = getServerConfig().cache): ResultCache | null {
+  switch (config.backend) {
+    case "memory":
+      return createMemoryCache(config.maxEntries, config.ttlMs)
+    case "file":
+      return createFileCache(config.directory, config.ttlMs)
+    case "off":
+      return null
+  }
+}
+
+const activeCache = globalSingleton<ResultCache | null>("resultCache", () => createResultCache())
+
+export function getResultCache(): ResultCache | null {
+  return activeCache.get()
+}
+
+// Replace the configured cache, e.g. with createRedisCache(), or pass null to disable caching
+export function setResultCache(cache: ResultCache | null) {
+  activeCache.set(cache)
+}
+
+// Parse the optional "cache" form field, defaulting to "use". A "Cache-Control: no-cache" request header
+// also bypasses the cache.
+export function parseCacheMode(value: FormDataEntryValue | null, cacheControl: string | null = null): CacheMode | null {
+  if (value === null || value === "") {
+    return cacheControl && /\bno-cache\b/i.test(cacheControl) ? "bypass" : "use"
+  }
+  return CACHE_MODES.find((mode) => mode === value) ?? null
+}
+
+export interface RecognitionSettings {
+  format: OcrOutputFormat
+  preprocessing: PreprocessingStep[]
+  tiling: TilingMode
+  dpi: number
+  regions?: CropRegion[] | null
+}
+
+// Key for the result of recognizing `upload` with the given settings: a hash of the upload's bytes and of
+// everything else that changes what the model returns, namely the settings, the prompts and the model setup
+export function resultCacheKey(upload: Buffer, settings: RecognitionSettings): string {
+  const providerConfig = getServerConfig().provider
+  const fingerprint = JSON.stringify({
+    version: CACHE_KEY_VERSION,
+    upload: createHash("sha256").update(upload).digest("hex"),
+    // hOCR, ALTO and searchable PDFs are all rendered from the same layout result; text is recognized with
+    // its own prompt, so it never shares an entry with them
+    format: settings.format === "text" ? "text" : "layout",
+    preprocessing: settings.preprocessing,
+    tiling: settings.tiling,
+    dpi: settings.dpi,
+    regions: settings.regions ?? null,
+    prompts: RECOGNITION_PROMPTS,
+    provider: {
+      name: providerConfig.provider,
+      baseURL: providerConfig.baseURL ?? null,
+      model: providerConfig.model,
+      temperature: providerConfig.temperature,
+      maxTokens: providerConfig.maxTokens,
+      layoutMaxTokens: providerConfig.layoutMaxTokens,
+      maxContinuations: providerConfig.maxContinuations,
+    },
+  })
+  return createHash("sha256").update(fingerprint).digest("hex")
+}
+
+// Incomplete results, and pages or regions the model found no text in, may come out differently next time
+function isCacheable(result: OcrResult): boolean {
+  const texts = [result.text, ...(result.pages ?? []).map((page) => page.text), ...(result.regions ?? []).map((region) => region.text)]
+  return !result.truncated && texts.every((text) => text.trim() !== "" && text !== NO_TEXT_FOUND)
+}
+
+// Return the cached result for `key`, or run `recognize` and cache what it returns. Truncated and empty
+// results are not cached, so the next request tries again. The cache only saves work: a failing backend
+// is logged and the upload is recognized as if nothing were cached.
+export async function withResultCache(
+  key: string,
+  mode: CacheMode,
+  recognize: () => Promise<OcrResult>,
+): Promise<{ result: OcrResult; cache: CacheInfo }> {
+  const cache = getResultCache()
+  if (!cache) {
+    return { result: await recognize(), cache: { status: "off", key: null, storedAt: null } }
+  }
+
+  if (mode === "use") {
+    try {
+      const entry = await cache.get(key)
+      if (entry) {
+        logger.info("cache hit", { cache: cache.name, key: key.slice(0, 12), storedAt: entry.storedAt })
+        return { result: entry.result, cache: { status: "hit", key, storedAt: entry.storedAt } }
+      }
+    } catch (cacheError) {
+      logger.error("reading the result cache failed, recognizing the upload instead", { cache: cache.name, error: cacheError })
+    }
+  } else {
+    logger.info("bypassing the result cache", { cache: cache.name, key: key.slice(0, 12) })
+  }
+
+  const result = await recognize()
+  const storedAt = new Date().toISOString()
+  if (!isCacheable(result)) {
+    logger.info("not caching an incomplete result", { cache: cache.name, key: key.slice(0, 12), truncated: result.truncated })
+    return { result, cache: { status: mode === "use" ? "miss" : "bypass", key: null, storedAt } }
+  }
+  try {
+    await cache.set(key, { result, storedAt })
+  } catch (cacheError) {
+    logger.error("writing to the result cache failed", { cache: cache.name, error: cacheError })
+  }
+  return { result, cache: { status: mode === "use" ? "miss" : "bypass", key, storedAt } }
+}
@@ -0,0 +1,162 @@
+import { OcrError } from "@/lib/errors"
+import { globalSingleton } from "@/lib/global-singleton"
+import { logger } from "@/lib/logger"
+
+// "closed" passes calls through, "open" rejects them immediately, and "half-open" lets a single
+// trial call through to find out whether the upstream has recovered
+export type CircuitState = "closed" | "open" | "half-open"
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number
+  // How long the circuit stays open before a trial call is allowed
+  resetTimeoutMs: number
+  // Errors that say nothing about upstream health (e.g. a rejected API key) can be excluded
+  isFailure?: (error: unknown) => boolean
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: string | null
+  // When the next trial call will be allowed, while the circuit is open
+  retryAt: string | null
+}
+
+export interface CircuitBreaker {
+  readonly name: string
+  execute<T>(fn: () => Promise<T>): Promise<T>
+  snapshot(): CircuitBreakerSnapshot
+}
+
+// Thrown instead of calling the upstream while the circuit is open
+export class CircuitOpenError extends OcrError {
+  constructor(
+    readonly breaker: string,
+    readonly retryAt: Date,
+  ) {
+    super("UPSTREAM_UNAVAILABLE", `The OCR service is temporarily unavailable. Try again after ${retryAt.toISOString()}`, {
+      retryAt: retryAt.toISOString(),
+      retryAfterSeconds: Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000)),
+    })
+    this.name = "CircuitOpenError"
+  }
+}
+
+// The mutable part of a breaker, kept as plain data so it can be shared between module instances
+interface CircuitBreakerState {
+  state: CircuitState
+  consecutiveFailures: number
+  openedAt: number | null
+  trialInFlight: boolean
+}
+
+function initialState(): CircuitBreakerState {
+  return { state: "closed", consecutiveFailures: 0, openedAt: null, trialInFlight: false }
+}
+
+function toSnapshot(name: string, shared: CircuitBreakerState, resetTimeoutMs: number): CircuitBreakerSnapshot {
+  const { state, consecutiveFailures, openedAt } = shared
+  return {
+    name,
+    state,
+    consecutiveFailures,
+    openedAt: openedAt === null ? null : new Date(openedAt).toISOString(),
+    retryAt: state === "open" && openedAt !== null ? new Date(openedAt + resetTimeoutMs).toISOString() : null,
+  }
+}
+
+export function createCircuitBreaker(
+  name: string,
+  options: CircuitBreakerOptions,
+  shared: CircuitBreakerState = initialState(),
+): CircuitBreaker {
+  const transition = (next: CircuitState, reason: string) => {
+    if (shared.state !== next) {
+      logger.warn("circuit breaker changed state", { breaker: name, from: shared.state, to: next, reason })
+      shared.state = next
+    }
+  }
+
+  const onSuccess = () => {
+    shared.consecutiveFailures = 0
+    shared.openedAt = null
+    transition("closed", "call succeeded")
+  }
+
+  const onFailure = () => {
+    shared.consecutiveFailures++
+    if (shared.state === "half-open" || shared.consecutiveFailures >= options.failureThreshold) {
+      shared.openedAt = Date.now()
+      transition("open", `${shared.consecutiveFailures} consecutive failure(s)`)
+    }
+  }
+
+  return {
+    name,
+    async execute(fn) {
+      if (shared.state === "open" && shared.openedAt !== null) {
+        const retryAt = shared.openedAt + options.resetTimeoutMs
+        if (Date.now() < retryAt) {
+          throw new CircuitOpenError(name, new Date(retryAt))
+        }
+        transition("half-open", "reset timeout elapsed")
+      }
+
+      // Only one trial call at a time; everything else keeps failing fast until it settles
+      const isTrial = shared.state === "half-open"
+      if (isTrial) {
+        if (shared.trialInFlight) {
+          throw new CircuitOpenError(name, new Date(Date.now() + options.resetTimeoutMs))
+        }
+        shared.trialInFlight = true
+      }
+
+      try {
+        const result = await fn()
+        onSuccess()
+        return result
+      } catch (error) {
+        if (options.isFailure?.(error) ?? true) {
+          onFailure()
+        } else if (isTrial) {
+          // The upstream answered, so it is reachable even though the call itself was rejected
+          onSuccess()
+        }
+        throw error
+      } finally {
+        if (isTrial) {
+          shared.trialInFlight = false
+        }
+      }
+    },
+    snapshot() {
+      return toSnapshot(name, shared, options.resetTimeoutMs)
+    },
+  }
+}
+
+// Only breaker state is shared, so `isFailure` and CircuitOpenError come from the caller's module instance
+const breakerStates = globalSingleton(
+  "circuitBreakers",
+  () => new Map<string, { state: CircuitBreakerState; resetTimeoutMs: number }>(),
+)
+
+function sharedStates() {
+  return breakerStates.get()
+}
+
+// Get a breaker for `name` whose state is shared with every other breaker of the same name
+export function getCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let entry = sharedStates().get(name)
+  if (!entry) {
+    entry = { state: initialState(), resetTimeoutMs: options.resetTimeoutMs }
+    sharedStates().set(name, entry)
+  }
+  return createCircuitBreaker(name, options, entry.state)
+}
+
+export function listCircuitBreakers(): CircuitBreakerSnapshot[] {
+  return Array.from(sharedStates(), ([name, { state, resetTimeoutMs }]) => toSnapshot(name, state, resetTimeoutMs))
+}
@@ -0,0 +1,176 @@
+import { createHash, randomBytes } from "crypto"
+import { mkdir, readFile, rename, stat, writeFile } from "fs/promises"
+import path from "path"
+import { DEFAULT_CLIENT_KEYS_FILE, getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { globalSingleton } from "@/lib/global-singleton"
+
+// "optional" lets requests without a key through (limited by address) but rejects unknown or revoked keys;
+// "required" rejects every request without a valid key
+export type ClientKeyMode = "optional" | "required"
+
+// Issued keys look like "ocr_" followed by 32 random base64url characters
+const KEY_PREFIX = "ocr_"
+// Characters of the key kept in the record, so a key can be recognized in listings without storing it
+const DISPLAY_PREFIX_LENGTH = 12
+
+// A key as stored: only its hash is kept, so the store is useless to anyone who reads it
+export interface ClientKeyRecord {
+  id: string
+  name: string
+  // SHA-256 of the key, hex encoded
+  hash: string
+  prefix: string
+  createdAt: string
+  revokedAt: string | null
+}
+
+// The caller a valid key belongs to
+export interface AuthenticatedClient {
+  id: string
+  name: string
+}
+
+// Storage backend for key records. Implement this to keep keys in a database.
+export interface ClientKeyStore {
+  list(): Promise<ClientKeyRecord[]>
+  findByHash(hash: string): Promise<ClientKeyRecord | null>
+  save(record: ClientKeyRecord): Promise<void>
+}
+
+// Read from the environment by lib/config.ts
+export interface ClientKeyConfig {
+  mode: ClientKeyMode
+  file: string
+  // Records from OCR_CLIENT_KEYS_JSON; when set they are used instead of the file
+  records: ClientKeyRecord[] | null
+}
+
+export function hashClientKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex")
+}
+
+// Records in a JSON file. The parsed records are reused until the file's modification time or size
+// changes, so a revocation written by the client-keys script still applies to the next request.
+export function createFileClientKeyStore(file: string = DEFAULT_CLIENT_KEYS_FILE): ClientKeyStore {
+  let cached: { mtimeMs: number; size: number; records: ClientKeyRecord[] } | null = null
+
+  const readRecords = async (): Promise<ClientKeyRecord[]> => {
+    let stats
+    try {
+      stats = await stat(file)
+    } catch (statError) {
+      // No file simply means no keys have been issued yet
+      if ((statError as NodeJS.ErrnoException).code === "ENOENT") {
+        cached = null
+        return []
+      }
+      throw statError
+    }
+    if (cached?.mtimeMs !== stats.mtimeMs || cached.size !== stats.size) {
+      cached = { mtimeMs: stats.mtimeMs, size: stats.size, records: JSON.parse(await readFile(file, "utf8")) }
+    }
+    return cached.records
+  }
+
+  return {
+    list: readRecords,
+    async findByHash(hash) {
+      return (await readRecords()).find((record) => record.hash === hash) ?? null
+    },
+    async save(record) {
+      const records = (await readRecords()).filter((existing) => existing.id !== record.id)
+      await mkdir(path.dirname(file), { recursive: true })
+      const temporaryFile = `${file}.${process.pid}.tmp`
+      await writeFile(temporaryFile, `${JSON.stringify([...records, record], null, 2)}\n`)
+      await rename(temporaryFile, file)
+    },
+  }
+}
+
+// Records from OCR_CLIENT_KEYS_JSON, for read-only and serverless deployments. Keys are issued and
+// revoked in a file with the client-keys script, then exported into the variable.
+export function createStaticClientKeyStore(records: ClientKeyRecord[]): ClientKeyStore {
+  return {
+    async list() {
+      return records
+    },
+    async findByHash(hash) {
+      return records.find((record) => record.hash === hash) ?? null
+    },
+    async save() {
+      throw new Error("Client keys from OCR_CLIENT_KEYS_JSON are read-only; issue and revoke keys in a file and export them again")
+    },
+  }
+}
+
+const activeStore = globalSingleton<ClientKeyStore>("clientKeyStore", () => {
+  const { file, records } = getServerConfig().clientKeys
+  return records ? createStaticClientKeyStore(records) : createFileClientKeyStore(file)
+})
+
+export function getClientKeyStore(): ClientKeyStore {
+  return activeStore.get()
+}
+
+export function setClientKeyStore(store: ClientKeyStore) {
+  activeStore.set(store)
+}
+
+// Create a key for `name`. The key itself is only returned here and cannot be recovered later.
+export async function issueClientKey(
+  name: string,
+  store: ClientKeyStore = getClientKeyStore(),
+): Promise<{ key: string; record: ClientKeyRecord }> {
+  const key = KEY_PREFIX + randomBytes(24).toString("base64url")
+  const record: ClientKeyRecord = {
+    id: randomBytes(4).toString("hex"),
+    name,
+    hash: hashClientKey(key),
+    prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  }
+  await store.save(record)
+  return { key, record }
+}
+
+// Stop accepting a key. The record is kept so the key's history stays readable.
+export async function revokeClientKey(id: string, store: ClientKeyStore = getClientKeyStore()): Promise<ClientKeyRecord | null> {
+  const record = (await store.list()).find((existing) => existing.id === id)
+  if (!record) {
+    return null
+  }
+  const revoked = { ...record, revokedAt: record.revokedAt ?? new Date().toISOString() }
+  await store.save(revoked)
+  return revoked
+}
+
+// Identify the caller from an "Authorization: Bearer <key>" header. Returns null for a request without
+// a key when keys are optional; throws MISSING_CLIENT_KEY or INVALID_CLIENT_KEY otherwise.
+export async function authenticateClient(
+  request: Request,
+  config: ClientKeyConfig = getServerConfig().clientKeys,
+): Promise<AuthenticatedClient | null> {
+  const authorization = request.headers.get("authorization")
+  const key = authorization?.match(/^Bearer\s+(\S+)\s*$/i)?.[1]
+
+  if (!key) {
+    if (authorization) {
+      throw new OcrError("INVALID_CLIENT_KEY", 'The Authorization header must be "Bearer <client key>"')
+    }
+    if (config.mode === "required") {
+      throw new OcrError("MISSING_CLIENT_KEY", 'A client key is required. Send it as "Authorization: Bearer <client key>".')
+    }
+    return null
+  }
+
+  const record = await getClientKeyStore().findByHash(hashClientKey(key))
+  if (!record) {
+    throw new OcrError("INVALID_CLIENT_KEY", "The client key is not valid")
+  }
+  if (record.revokedAt) {
+    throw new OcrError("INVALID_CLIENT_KEY", "The client key has been revoked", { revokedAt: record.revokedAt })
+  }
+  return { id: record.id, name: record.name }
+}
@@ -0,0 +1,345 @@
+import os from "os"
+import path from "path"
+import { z } from "zod"
+import type { CacheConfig } from "@/lib/cache"
+import type { ClientKeyConfig } from "@/lib/client-keys"
+import type { JobConfig } from "@/lib/jobs"
+import { OcrError } from "@/lib/errors"
+import type { LoggerConfig } from "@/lib/logger"
+import type { ProviderConfig } from "@/lib/providers/types"
+import type { RateLimitConfig, RateLimitPolicy } from "@/lib/rate-limit"
+
+// Every setting the server reads from the environment, validated in one place. Unset or empty variables
+// take the defaults below. Invalid values fail with PROVIDER_NOT_CONFIGURED, listing every problem at once;
+// instrumentation.ts checks them when the server starts so a bad deployment stops before serving traffic.
+// A missing API key is not an error here: it is reported per request (and by /api/ready) so the web UI
+// can show its setup guide.
+
+export const DEFAULT_PROVIDER = "gravix"
+export const DEFAULT_MODEL = "google/gemma-3-12b-it"
+export const DEFAULT_TEMPERATURE = 0
+export const DEFAULT_MAX_TOKENS = 2048
+export const DEFAULT_LAYOUT_MAX_TOKENS = 8192
+export const DEFAULT_EXTRACTION_MAX_TOKENS = 4096
+export const DEFAULT_MAX_CONTINUATIONS = 3
+export const DEFAULT_TIMEOUT_MS = 60_000
+export const DEFAULT_MAX_RETRIES = 2
+export const DEFAULT_RETRY_BASE_DELAY_MS = 500
+export const DEFAULT_RETRY_MAX_DELAY_MS = 10_000
+export const DEFAULT_BREAKER_FAILURE_THRESHOLD = 5
+export const DEFAULT_BREAKER_RESET_MS = 30_000
+export const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+export const DEFAULT_MAX_BATCH_FILES = 20
+export const DEFAULT_BATCH_CONCURRENCY = 3
+export const DEFAULT_MAX_BATCH_CONCURRENCY = 8
+export const DEFAULT_MAX_PDF_PAGES = 20
+export const DEFAULT_JOB_MAX_PDF_PAGES = 200
+// Just under the 300 second maxDuration of the jobs route in vercel.json
+export const DEFAULT_JOB_TIMEOUT_MS = 290_000
+// About 100 MB of RGBA while a page is rendered; an A4 page at 400 DPI is about 15.5 million pixels
+export const DEFAULT_MAX_PDF_PAGE_PIXELS = 25_000_000
+export const DEFAULT_UPSCALE_MIN_DIMENSION = 1000
+export const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+export const DEFAULT_CACHE_MAX_ENTRIES = 500
+export const DEFAULT_CACHE_DIR = path.join(os.tmpdir(), "ocr-result-cache")
+export const DEFAULT_IP_POLICY: RateLimitPolicy = { burst: 20, perMinute: 10, dailyQuota: 200 }
+export const DEFAULT_KEY_POLICY: RateLimitPolicy = { burst: 30, perMinute: 30, dailyQuota: 2000 }
+// Vercel, and most single reverse proxies, append exactly one entry
+export const DEFAULT_TRUSTED_PROXY_HOPS = 1
+export const DEFAULT_CLIENT_KEYS_FILE = path.join("data", "client-keys.json")
+
+export interface ServerConfig {
+  provider: ProviderConfig
+  // Uploads larger than this are rejected, by the API and by the web UI
+  maxUploadBytes: number
+  // Files accepted in one /api/ocr/batch request
+  maxBatchFiles: number
+  // Batch files sent upstream at once when the request does not say, and the most a request may ask for
+  batchConcurrency: number
+  maxBatchConcurrency: number
+  // PDFs with more pages are rejected before any page is rendered
+  maxPdfPages: number
+  // Pages that would render to more pixels at the requested DPI are rendered at a lower resolution
+  maxPdfPagePixels: number
+  // Longest side, in pixels, that the built-in preprocessing presets enlarge smaller images to
+  upscaleMinDimension: number
+  cache: CacheConfig
+  rateLimit: RateLimitConfig
+  clientKeys: ClientKeyConfig
+  jobs: JobConfig
+  // Origins allowed to call the API from other sites; the app's own origin is always allowed
+  allowedOrigins: string[]
+  // The origin the app is served from, e.g. "https://ocr.example.com"; null to use the Host header
+  publicOrigin: string | null
+  logging: LoggerConfig
+}
+
+// The part of the configuration the browser may see. Never add credentials or file paths here.
+export interface ClientConfig {
+  maxUploadBytes: number
+  // The web UI asks for a client key before the first upload
+  clientKeysRequired: boolean
+}
+
+// Unset and empty variables both mean "use the default"
+const blankToUndefined = (value: unknown) => (typeof value === "string" && value.trim() === "" ? undefined : value)
+
+const optionalString = z.preprocess(blankToUndefined, z.string().optional())
+
+function numberVariable(fallback: number, refine: (schema: z.ZodNumber) => z.ZodNumber = (schema) => schema) {
+  const schema = z.coerce.number({ invalid_type_error: "must be a number" }).finite("must be a number")
+  return z.preprocess(blankToUndefined, refine(schema).default(fallback))
+}
+
+function integerVariable(fallback: number, min: number) {
+  return numberVariable(fallback, (schema) => schema.int("must be a whole number").min(min, `must be at least ${min}`))
+}
+
+function enumVariable<const T extends string>(values: [T, ...T[]], fallback: T) {
+  const message = `must be one of: ${values.join(", ")}`
+  return z.preprocess(blankToUndefined, z.enum(values, { errorMap: () => ({ message }) }).default(fallback))
+}
+
+const ORIGIN_PATTERN = /^https?:\/\/[^/\s]+$/
+
+const originListVariable = z
+  .preprocess(blankToUndefined, z.string().default(""))
+  .transform((value) =>
+    value
+      .split(",")
+      .map((origin) => origin.trim().replace(/\/+$/, ""))
+      .filter((origin) => origin !== ""),
+  )
+  .refine(
+    (origins) => origins.every((origin) => origin === "*" || ORIGIN_PATTERN.test(origin)),
+    "must be a comma-separated list of origins such as https://app.example.com, or *",
+  )
+
+const originVariable = z.preprocess(
+  (value) => (typeof value === "string" ? blankToUndefined(value.trim().replace(/\/+$/, "")) : value),
+  z.string().regex(ORIGIN_PATTERN, "must be an origin such as https://ocr.example.com").optional(),
+)
+
+const clientKeyRecordsSchema = z.array(
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    hash: z.string().regex(/^[0-9a-f]{64}$/),
+    prefix: z.string(),
+    createdAt: z.string(),
+    revokedAt: z.string().nullable(),
+  }),
+)
+
+// Key records as printed by the client-keys script. They hold only hashes, so the value reveals no key.
+const clientKeyRecordsVariable = z.preprocess(blankToUndefined, z.string().optional()).transform((value, context) => {
+  if (value === undefined) {
+    return null
+  }
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    parsed = undefined
+  }
+  const records = clientKeyRecordsSchema.safeParse(parsed)
+  if (!records.success) {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "must be the key records printed by `npm run client-keys -- export`" })
+    return z.NEVER
+  }
+  return records.data
+})
+
+const serverEnvSchema = z.object({
+  // Registered provider name; checked against the registered providers when one is built
+  OCR_PROVIDER: z.preprocess(blankToUndefined, z.string().default(DEFAULT_PROVIDER)),
+  // OpenAI-compatible endpoint; defaults to the provider's own
+  OCR_BASE_URL: z.preprocess(blankToUndefined, z.string().url("must be a URL, e.g. http://localhost:8000/v1").optional()),
+  // Key for the endpoint; the gravix provider falls back to GRAVIXLAYER_API_KEY
+  OCR_API_KEY: optionalString,
+  GRAVIXLAYER_API_KEY: optionalString,
+  OCR_MODEL: z.preprocess(blankToUndefined, z.string().default(DEFAULT_MODEL)),
+  OCR_TEMPERATURE: numberVariable(DEFAULT_TEMPERATURE, (schema) =>
+    schema.min(0, "must be between 0 and 2").max(2, "must be between 0 and 2"),
+  ),
+  // Token budget for plain-text responses
+  OCR_MAX_TOKENS: integerVariable(DEFAULT_MAX_TOKENS, 1),
+  // Token budgets for layout responses (word boxes) and for structured extraction
+  OCR_LAYOUT_MAX_TOKENS: integerVariable(DEFAULT_LAYOUT_MAX_TOKENS, 1),
+  OCR_EXTRACTION_MAX_TOKENS: integerVariable(DEFAULT_EXTRACTION_MAX_TOKENS, 1),
+  // Follow-up requests when a response is cut off at the token limit
+  OCR_MAX_CONTINUATIONS: integerVariable(DEFAULT_MAX_CONTINUATIONS, 0),
+  // How long to wait for the endpoint before giving up
+  OCR_TIMEOUT_MS: integerVariable(DEFAULT_TIMEOUT_MS, 1),
+  // Retries of transient failures with exponential backoff
+  OCR_MAX_RETRIES: integerVariable(DEFAULT_MAX_RETRIES, 0),
+  OCR_RETRY_BASE_DELAY_MS: integerVariable(DEFAULT_RETRY_BASE_DELAY_MS, 0),
+  OCR_RETRY_MAX_DELAY_MS: integerVariable(DEFAULT_RETRY_MAX_DELAY_MS, 0),
+  // Consecutive failures that open the circuit breaker, and how long it stays open
+  OCR_BREAKER_FAILURE_THRESHOLD: integerVariable(DEFAULT_BREAKER_FAILURE_THRESHOLD, 1),
+  OCR_BREAKER_RESET_MS: integerVariable(DEFAULT_BREAKER_RESET_MS, 1),
+
+  OCR_MAX_UPLOAD_BYTES: integerVariable(DEFAULT_MAX_UPLOAD_BYTES, 1),
+  OCR_MAX_BATCH_FILES: integerVariable(DEFAULT_MAX_BATCH_FILES, 1),
+  OCR_BATCH_CONCURRENCY: integerVariable(DEFAULT_BATCH_CONCURRENCY, 1),
+  OCR_MAX_BATCH_CONCURRENCY: integerVariable(DEFAULT_MAX_BATCH_CONCURRENCY, 1),
+  OCR_MAX_PDF_PAGES: integerVariable(DEFAULT_MAX_PDF_PAGES, 1),
+  OCR_MAX_PDF_PAGE_PIXELS: integerVariable(DEFAULT_MAX_PDF_PAGE_PIXELS, 1_000_000),
+  // Same range as the "upscale" preprocessing step accepts
+  OCR_UPSCALE_MIN_DIMENSION: numberVariable(DEFAULT_UPSCALE_MIN_DIMENSION, (schema) =>
+    schema.int("must be a whole number").min(100, "must be between 100 and 4000").max(4000, "must be between 100 and 4000"),
+  ),
+
+  OCR_CACHE: enumVariable(["memory", "file", "off"], "memory"),
+  // How long a result is reused
+  OCR_CACHE_TTL_MS: integerVariable(DEFAULT_CACHE_TTL_MS, 1),
+  // Results kept by the memory backend before the least recently used is dropped
+  OCR_CACHE_MAX_ENTRIES: integerVariable(DEFAULT_CACHE_MAX_ENTRIES, 1),
+  // Directory of the file backend
+  OCR_CACHE_DIR: z.preprocess(blankToUndefined, z.string().default(DEFAULT_CACHE_DIR)),
+
+  OCR_RATE_LIMIT: enumVariable(["memory", "off"], "memory"),
+  // Limits per client address; the burst must cover the largest batch, which is charged one request per page
+  OCR_RATE_LIMIT_IP_BURST: integerVariable(DEFAULT_IP_POLICY.burst, 1),
+  OCR_RATE_LIMIT_IP_PER_MINUTE: integerVariable(DEFAULT_IP_POLICY.perMinute, 1),
+  OCR_RATE_LIMIT_IP_DAILY_QUOTA: integerVariable(DEFAULT_IP_POLICY.dailyQuota, 0),
+  // Limits per client key
+  OCR_RATE_LIMIT_KEY_BURST: integerVariable(DEFAULT_KEY_POLICY.burst, 1),
+  OCR_RATE_LIMIT_KEY_PER_MINUTE: integerVariable(DEFAULT_KEY_POLICY.perMinute, 1),
+  OCR_RATE_LIMIT_KEY_DAILY_QUOTA: integerVariable(DEFAULT_KEY_POLICY.dailyQuota, 0),
+  // Proxies in front of the app that append the client address to X-Forwarded-For
+  OCR_TRUSTED_PROXY_HOPS: integerVariable(DEFAULT_TRUSTED_PROXY_HOPS, 0),
+
+  // Asynchronous jobs exist for long documents, so they have their own page limit and a time limit
+  OCR_JOB_MAX_PDF_PAGES: integerVariable(DEFAULT_JOB_MAX_PDF_PAGES, 1),
+  OCR_JOB_TIMEOUT_MS: integerVariable(DEFAULT_JOB_TIMEOUT_MS, 1),
+
+  OCR_CLIENT_KEYS: enumVariable(["optional", "required"], "optional"),
+  // JSON file of key records, managed with scripts/client-keys.ts
+  OCR_CLIENT_KEYS_FILE: z.preprocess(blankToUndefined, z.string().default(DEFAULT_CLIENT_KEYS_FILE)),
+  // The same records in a variable, for deployments without a persistent disk; replaces the file when set
+  OCR_CLIENT_KEYS_JSON: clientKeyRecordsVariable,
+
+  // e.g. "https://app.example.com,https://admin.example.com", or "*" for any origin
+  OCR_ALLOWED_ORIGINS: originListVariable,
+  // Where the web UI is served from, as the browser sees it; needed when a proxy rewrites the Host header
+  OCR_PUBLIC_ORIGIN: originVariable,
+})
+
+// Logging is read on its own and never fails: an unknown level falls back to "info", so a typo cannot
+// take down error reporting, including the report of the invalid configuration itself
+const loggingEnvSchema = z.object({
+  OCR_LOG_LEVEL: z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase() : value),
+    z.enum(["debug", "info", "warn", "error"]).catch("info"),
+  ),
+  // "true" logs document content for debugging. Never enable this where uploads may hold personal or
+  // confidential data.
+  OCR_LOG_CONTENT: z.unknown().transform((value) => value === "true"),
+})
+
+export function loadLoggerConfig(env: NodeJS.ProcessEnv = process.env): LoggerConfig {
+  const { OCR_LOG_LEVEL, OCR_LOG_CONTENT } = loggingEnvSchema.parse(env)
+  return { level: OCR_LOG_LEVEL, logContent: OCR_LOG_CONTENT }
+}
+
+// One readable sentence per problem, e.g. `OCR_CACHE must be one of: memory, file, off, got "redis"`
+function describeIssues(error: z.ZodError, env: NodeJS.ProcessEnv): string[] {
+  return error.issues.map((issue) => {
+    const name = String(issue.path[0])
+    const raw = env[name]
+    return raw === undefined ? `${name} ${issue.message}` : `${name} ${issue.message}, got "${raw}"`
+  })
+}
+
+// Parse and validate the environment. Throws PROVIDER_NOT_CONFIGURED describing every invalid variable.
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const result = serverEnvSchema.safeParse(env)
+  if (!result.success) {
+    const issues = describeIssues(result.error, env)
+    throw new OcrError("PROVIDER_NOT_CONFIGURED", `Invalid configuration: ${issues.join("; ")}`, { issues })
+  }
+  const values = result.data
+  return {
+    provider: {
+      provider: values.OCR_PROVIDER,
+      baseURL: values.OCR_BASE_URL,
+      apiKey: values.OCR_API_KEY ?? (values.OCR_PROVIDER === "gravix" ? values.GRAVIXLAYER_API_KEY : undefined),
+      model: values.OCR_MODEL,
+      temperature: values.OCR_TEMPERATURE,
+      maxTokens: values.OCR_MAX_TOKENS,
+      layoutMaxTokens: values.OCR_LAYOUT_MAX_TOKENS,
+      extractionMaxTokens: values.OCR_EXTRACTION_MAX_TOKENS,
+      maxContinuations: values.OCR_MAX_CONTINUATIONS,
+      timeoutMs: values.OCR_TIMEOUT_MS,
+      retry: {
+        maxRetries: values.OCR_MAX_RETRIES,
+        baseDelayMs: values.OCR_RETRY_BASE_DELAY_MS,
+        maxDelayMs: values.OCR_RETRY_MAX_DELAY_MS,
+      },
+      circuitBreaker: {
+        failureThreshold: values.OCR_BREAKER_FAILURE_THRESHOLD,
+        resetTimeoutMs: values.OCR_BREAKER_RESET_MS,
+      },
+    },
+    maxUploadBytes: values.OCR_MAX_UPLOAD_BYTES,
+    maxBatchFiles: values.OCR_MAX_BATCH_FILES,
+    batchConcurrency: values.OCR_BATCH_CONCURRENCY,
+    maxBatchConcurrency: values.OCR_MAX_BATCH_CONCURRENCY,
+    maxPdfPages: values.OCR_MAX_PDF_PAGES,
+    maxPdfPagePixels: values.OCR_MAX_PDF_PAGE_PIXELS,
+    upscaleMinDimension: values.OCR_UPSCALE_MIN_DIMENSION,
+    cache: {
+      backend: values.OCR_CACHE,
+      ttlMs: values.OCR_CACHE_TTL_MS,
+      maxEntries: values.OCR_CACHE_MAX_ENTRIES,
+      directory: values.OCR_CACHE_DIR,
+    },
+    rateLimit: {
+      backend: values.OCR_RATE_LIMIT,
+      ip: {
+        burst: values.OCR_RATE_LIMIT_IP_BURST,
+        perMinute: values.OCR_RATE_LIMIT_IP_PER_MINUTE,
+        dailyQuota: values.OCR_RATE_LIMIT_IP_DAILY_QUOTA,
+      },
+      key: {
+        burst: values.OCR_RATE_LIMIT_KEY_BURST,
+        perMinute: values.OCR_RATE_LIMIT_KEY_PER_MINUTE,
+        dailyQuota: values.OCR_RATE_LIMIT_KEY_DAILY_QUOTA,
+      },
+      trustedProxyHops: values.OCR_TRUSTED_PROXY_HOPS,
+    },
+    clientKeys: { mode: values.OCR_CLIENT_KEYS, file: values.OCR_CLIENT_KEYS_FILE, records: values.OCR_CLIENT_KEYS_JSON },
+    jobs: { maxPdfPages: values.OCR_JOB_MAX_PDF_PAGES, timeoutMs: values.OCR_JOB_TIMEOUT_MS },
+    allowedOrigins: values.OCR_ALLOWED_ORIGINS,
+    publicOrigin: values.OCR_PUBLIC_ORIGIN ?? null,
+    logging: loadLoggerConfig(env),
+  }
+}
+
+// The environment does not change while the server runs, so it is parsed once per bundle. Failures are
+// not kept, so every caller gets the error rather than a stale value.
+let serverConfig: ServerConfig | undefined
+
+export function getServerConfig(): ServerConfig {
+  if (!serverConfig) {
+    serverConfig = loadServerConfig()
+  }
+  return serverConfig
+}
+
+// Read on every log line, so parsed once like the server configuration. It never fails, so it can be
+// cached even while the rest of the configuration is invalid.
+let loggerConfig: LoggerConfig | undefined
+
+export function getLoggerConfig(): LoggerConfig {
+  if (!loggerConfig) {
+    loggerConfig = loadLoggerConfig()
+  }
+  return loggerConfig
+}
+
+export function getClientConfig(): ClientConfig {
+  const config = getServerConfig()
+  return { maxUploadBytes: config.maxUploadBytes, clientKeysRequired: config.clientKeys.mode === "required" }
+}
@@ -0,0 +1,90 @@
+import { getServerConfig } from "@/lib/config"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+
+// Request headers browsers on other origins may send, and response headers their scripts may read
+const ALLOWED_REQUEST_HEADERS = "Authorization, Content-Type, Cache-Control, X-Request-Id"
+const EXPOSED_RESPONSE_HEADERS = "RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy, Retry-After, X-Cache, X-Request-Id"
+// How long browsers may reuse a preflight answer, in seconds
+const PREFLIGHT_MAX_AGE = 600
+
+// Whether the Origin header names this app. Without a configured public origin the Host header is used:
+// browsers set it themselves, unlike X-Forwarded-Host, which any caller can send.
+function isSameOrigin(request: Request, origin: string, publicOrigin: string | null): boolean {
+  if (publicOrigin) {
+    return origin === publicOrigin
+  }
+  const host = request.headers.get("host")
+  try {
+    return host !== null && new URL(origin).host === host
+  } catch {
+    return false
+  }
+}
+
+// Requests without an Origin header come from servers and command-line tools, which CORS does not cover
+export function isOriginAllowed(
+  request: Request,
+  allowedOrigins: string[] = getServerConfig().allowedOrigins,
+  publicOrigin: string | null = getServerConfig().publicOrigin,
+): boolean {
+  const origin = request.headers.get("origin")
+  return (
+    !origin ||
+    isSameOrigin(request, origin, publicOrigin) ||
+    allowedOrigins.includes("*") ||
+    allowedOrigins.includes(origin)
+  )
+}
+
+// CORS headers for a response to an allowed cross-origin request; none for anything else
+export function corsHeaders(
+  request: Request,
+  allowedOrigins: string[] = getServerConfig().allowedOrigins,
+  publicOrigin: string | null = getServerConfig().publicOrigin,
+): Record<string, string> {
+  const origin = request.headers.get("origin")
+  if (!origin || isSameOrigin(request, origin, publicOrigin) || !isOriginAllowed(request, allowedOrigins, publicOrigin)) {
+    return {}
+  }
+  return {
+    "Access-Control-Allow-Origin": allowedOrigins.includes(origin) ? origin : "*",
+    "Access-Control-Expose-Headers": EXPOSED_RESPONSE_HEADERS,
+    Vary: "Origin",
+  }
+}
+
+export function setCorsHeaders(response: Response, request: Request): Response {
+  for (const [name, value] of Object.entries(corsHeaders(request))) {
+    // Vary may already list other headers the response depends on
+    if (name === "Vary") {
+      response.headers.append(name, value)
+    } else {
+      response.headers.set(name, value)
+    }
+  }
+  return response
+}
+
+export function originNotAllowedError(request: Request): OcrError {
+  return new OcrError("ORIGIN_NOT_ALLOWED", "Requests from this origin are not allowed", {
+    origin: request.headers.get("origin"),
+  })
+}
+
+// Answer a CORS preflight: 204 with the allowed methods and headers, or 403 for an origin that is not allowed
+export function preflightResponse(request: Request, methods: string[]): Response {
+  if (!isOriginAllowed(request)) {
+    logger.warn("preflight rejected", { origin: request.headers.get("origin") })
+    return errorResponse(originNotAllowedError(request))
+  }
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders(request),
+      "Access-Control-Allow-Methods": [...methods, "OPTIONS"].join(", "),
+      "Access-Control-Allow-Headers": ALLOWED_REQUEST_HEADERS,
+      "Access-Control-Max-Age": String(PREFLIGHT_MAX_AGE),
+    },
+  })
+}
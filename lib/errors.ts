@@ -0,0 +1,99 @@
+// Stable error codes returned by the API. Clients should branch on these rather than on messages,
+// which are meant for people and may change.
+export const ERROR_CODES = {
+  // The request itself is malformed: a missing file, an out-of-range field, an unknown format
+  INVALID_REQUEST: { status: 400, retryable: false },
+  // The uploaded file is not an image or PDF that can be decoded
+  INVALID_IMAGE: { status: 400, retryable: false },
+  PAYLOAD_TOO_LARGE: { status: 413, retryable: false },
+  // The uploaded PDF has more pages than one request may recognize
+  TOO_MANY_PAGES: { status: 413, retryable: false },
+  // A searchable PDF was requested for an encrypted PDF, which cannot be rewritten
+  ENCRYPTED_PDF: { status: 422, retryable: false },
+  INVALID_SCHEMA: { status: 400, retryable: false },
+  // The model never produced output matching the extraction schema
+  EXTRACTION_FAILED: { status: 422, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false },
+  // The job ran out of time before every page was recognized
+  JOB_TIMEOUT: { status: 504, retryable: false },
+  // The caller sent no client key, but the server requires one
+  MISSING_CLIENT_KEY: { status: 401, retryable: false },
+  // The caller's client key is unknown or revoked
+  INVALID_CLIENT_KEY: { status: 401, retryable: false },
+  // The request came from a browser on an origin outside OCR_ALLOWED_ORIGINS
+  ORIGIN_NOT_ALLOWED: { status: 403, retryable: false },
+  // The client sent requests faster than its rate limit allows
+  RATE_LIMITED: { status: 429, retryable: true },
+  // The client has used up its daily quota; it resets at midnight UTC
+  QUOTA_EXCEEDED: { status: 429, retryable: false },
+  // The server has no key for the OCR provider
+  MISSING_API_KEY: { status: 500, retryable: false },
+  // Any other server-side configuration problem, e.g. an unknown OCR_PROVIDER
+  PROVIDER_NOT_CONFIGURED: { status: 500, retryable: false },
+  // Jobs were submitted to a serverless deployment that has no shared job store
+  JOB_STORE_NOT_CONFIGURED: { status: 500, retryable: false },
+  // The OCR provider rejected the server's key
+  INVALID_API_KEY: { status: 401, retryable: false },
+  UPSTREAM_RATE_LIMITED: { status: 429, retryable: true },
+  UPSTREAM_TIMEOUT: { status: 504, retryable: true },
+  // The provider is down or unreachable, or the circuit breaker is open
+  UPSTREAM_UNAVAILABLE: { status: 503, retryable: true },
+  // The provider answered with an error or a response that could not be used
+  UPSTREAM_ERROR: { status: 502, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: false },
+} as const satisfies Record<string, { status: number; retryable: boolean }>
+
+export type ErrorCode = keyof typeof ERROR_CODES
+
+export type ErrorDetails = Record<string, unknown>
+
+// The `error` member of every error response body
+export interface ApiError {
+  code: ErrorCode
+  message: string
+  retryable: boolean
+  details: ErrorDetails | null
+}
+
+export interface ApiErrorBody {
+  error: ApiError
+}
+
+// An error with a stable code. Anything else that reaches a route is reported as INTERNAL_ERROR.
+export class OcrError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: ErrorDetails | null = null,
+  ) {
+    super(message)
+    this.name = "OcrError"
+  }
+
+  get status(): number {
+    return ERROR_CODES[this.code].status
+  }
+
+  get retryable(): boolean {
+    return ERROR_CODES[this.code].retryable
+  }
+}
+
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof OcrError) {
+    return { code: error.code, message: error.message, retryable: error.retryable, details: error.details }
+  }
+  const message = error instanceof Error ? error.message : "An unknown internal server error occurred."
+  return { code: "INTERNAL_ERROR", message: `Internal server error: ${message}`, retryable: false, details: null }
+}
+
+// Build the JSON response for an error, with Retry-After when the details say how long to wait
+export function errorResponse(error: unknown): Response {
+  const apiError = toApiError(error)
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (typeof apiError.details?.retryAfterSeconds === "number") {
+    headers["Retry-After"] = String(apiError.details.retryAfterSeconds)
+  }
+  const body: ApiErrorBody = { error: apiError }
+  return new Response(JSON.stringify(body), { status: ERROR_CODES[apiError.code].status, headers })
+}
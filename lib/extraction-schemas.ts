@@ -0,0 +1,57 @@
+import { z } from "zod"
+
+// Dates are requested as ISO 8601 calendar dates so they can be parsed without guessing the locale
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+
+export const invoiceSchema = z.object({
+  invoiceNumber: z.string().nullable().describe("Invoice number or identifier"),
+  invoiceDate: isoDate.nullable().describe("Date the invoice was issued"),
+  dueDate: isoDate.nullable().describe("Payment due date"),
+  vendorName: z.string().nullable().describe("Name of the company issuing the invoice"),
+  customerName: z.string().nullable().describe("Name of the billed customer"),
+  currency: z.string().nullable().describe("ISO 4217 currency code, e.g. USD or INR"),
+  subtotal: z.number().nullable().describe("Total before tax"),
+  tax: z.number().nullable().describe("Total tax amount"),
+  total: z.number().nullable().describe("Amount due including tax"),
+  lineItems: z
+    .array(
+      z.object({
+        description: z.string(),
+        quantity: z.number().nullable(),
+        unitPrice: z.number().nullable(),
+        amount: z.number().nullable(),
+      }),
+    )
+    .nullable()
+    .describe("Individual billed items in the order they appear"),
+})
+
+export const receiptSchema = z.object({
+  merchantName: z.string().nullable().describe("Name of the store or merchant"),
+  date: isoDate.nullable().describe("Date of purchase"),
+  time: z.string().nullable().describe("Time of purchase in 24-hour HH:MM format"),
+  currency: z.string().nullable().describe("ISO 4217 currency code, e.g. USD or INR"),
+  items: z
+    .array(
+      z.object({
+        name: z.string(),
+        quantity: z.number().nullable(),
+        price: z.number().nullable(),
+      }),
+    )
+    .nullable()
+    .describe("Purchased items in the order they appear"),
+  subtotal: z.number().nullable(),
+  tax: z.number().nullable(),
+  total: z.number().nullable().describe("Amount paid including tax"),
+  paymentMethod: z.string().nullable().describe("e.g. cash, card or UPI"),
+})
+
+export type Invoice = z.infer<typeof invoiceSchema>
+export type Receipt = z.infer<typeof receiptSchema>
+
+// Schemas that can be requested by name through the "schemaName" field of /api/ocr/extract
+export const namedExtractionSchemas: Record<string, z.ZodTypeAny> = {
+  invoice: invoiceSchema,
+  receipt: receiptSchema,
+}
@@ -0,0 +1,258 @@
+import { z } from "zod"
+import { zodToJsonSchema } from "zod-to-json-schema"
+import { getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { namedExtractionSchemas } from "@/lib/extraction-schemas"
+import { parseModelJson } from "@/lib/json"
+import { logger } from "@/lib/logger"
+import { prepareImage, type OcrDocument } from "@/lib/ocr"
+import type { PreprocessingStep } from "@/lib/preprocessing"
+import { getOcrProvider } from "@/lib/providers"
+
+// A schema the model output is validated against, plus the JSON Schema shown to the model
+export interface ExtractionSchema {
+  validator: z.ZodTypeAny
+  jsonSchema: object
+}
+
+export interface ExtractionResult<T = unknown> {
+  data: T
+  // All text in the document, as transcribed by the model alongside the fields
+  text: string
+  attempts: number
+}
+
+// Thrown when a user-supplied JSON Schema uses something the converter doesn't support
+export class InvalidSchemaError extends OcrError {
+  constructor(message: string) {
+    super("INVALID_SCHEMA", message)
+    this.name = "InvalidSchemaError"
+  }
+}
+
+// Thrown when the model never produced output matching the schema
+export class ExtractionFailedError extends OcrError {
+  constructor(
+    message: string,
+    readonly issues: string[],
+    readonly raw: string,
+  ) {
+    super("EXTRACTION_FAILED", message, { issues, raw })
+    this.name = "ExtractionFailedError"
+  }
+}
+
+export const MAX_EXTRACTION_ATTEMPTS = 3
+// Pages beyond this are not sent to the model, to keep the request within the model's context
+export const MAX_EXTRACTION_PAGES = 5
+// Custom schemas are converted on every request and sent to the model with every attempt, so their size is capped
+export const MAX_SCHEMA_DEPTH = 8
+export const MAX_SCHEMA_FIELDS = 200
+
+type JsonSchema = Record<string, unknown>
+
+function isJsonSchema(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// Convert the subset of JSON Schema that describes plain data into a zod validator:
+// object, array, string, number, integer, boolean and null types, enum, required, and basic bounds.
+// Schemas nested deeper than MAX_SCHEMA_DEPTH or with more than MAX_SCHEMA_FIELDS properties are rejected.
+export function jsonSchemaToZod(schema: unknown): z.ZodTypeAny {
+  return convertJsonSchema(schema, "schema", 0, { fields: 0 })
+}
+
+// `depth` counts the objects and arrays around `schema`; `counted.fields` the properties converted so far
+function convertJsonSchema(schema: unknown, path: string, depth: number, counted: { fields: number }): z.ZodTypeAny {
+  if (!isJsonSchema(schema)) {
+    throw new InvalidSchemaError(`${path} must be an object`)
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    throw new InvalidSchemaError(`${path} is nested more than ${MAX_SCHEMA_DEPTH} levels deep`)
+  }
+
+  const describe = (validator: z.ZodTypeAny) =>
+    typeof schema.description === "string" ? validator.describe(schema.description) : validator
+
+  if (Array.isArray(schema.enum)) {
+    const literals = schema.enum.map((value) => {
+      if (value !== null && !["string", "number", "boolean"].includes(typeof value)) {
+        throw new InvalidSchemaError(`${path}.enum may only contain strings, numbers, booleans or null`)
+      }
+      return z.literal(value as string | number | boolean | null)
+    })
+    if (literals.length === 0) {
+      throw new InvalidSchemaError(`${path}.enum must not be empty`)
+    }
+    return describe(
+      literals.length === 1
+        ? literals[0]
+        : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]),
+    )
+  }
+
+  // ["string", "null"] style type lists become a union of each type
+  if (Array.isArray(schema.type)) {
+    const options = schema.type.map((type, index) => convertJsonSchema({ ...schema, type }, `${path}.type[${index}]`, depth, counted))
+    if (options.length === 0) {
+      throw new InvalidSchemaError(`${path}.type must not be empty`)
+    }
+    return describe(
+      options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]),
+    )
+  }
+
+  switch (schema.type) {
+    case "object": {
+      const properties = schema.properties ?? {}
+      if (!isJsonSchema(properties)) {
+        throw new InvalidSchemaError(`${path}.properties must be an object`)
+      }
+      const required = Array.isArray(schema.required) ? schema.required : []
+      counted.fields += Object.keys(properties).length
+      if (counted.fields > MAX_SCHEMA_FIELDS) {
+        throw new InvalidSchemaError(`Schemas can have at most ${MAX_SCHEMA_FIELDS} properties in total`)
+      }
+      const shape: Record<string, z.ZodTypeAny> = {}
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        const property = convertJsonSchema(propertySchema, `${path}.properties.${key}`, depth + 1, counted)
+        // The prompt asks for null when a field is not in the document, so optional properties also accept null
+        shape[key] = required.includes(key) ? property : property.nullish()
+      }
+      return describe(z.object(shape))
+    }
+    case "array": {
+      let array = z.array(convertJsonSchema(schema.items ?? {}, `${path}.items`, depth + 1, counted))
+      if (typeof schema.minItems === "number") array = array.min(schema.minItems)
+      if (typeof schema.maxItems === "number") array = array.max(schema.maxItems)
+      return describe(array)
+    }
+    case "string": {
+      let string = z.string()
+      if (typeof schema.minLength === "number") string = string.min(schema.minLength)
+      if (typeof schema.maxLength === "number") string = string.max(schema.maxLength)
+      // `pattern` is shown to the model but not enforced: a user-supplied regular expression can take
+      // exponential time to match (ReDoS) and would block the server while validating the model's output
+      if (schema.format === "date") string = string.regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+      return describe(string)
+    }
+    case "number":
+    case "integer": {
+      let number = schema.type === "integer" ? z.number().int() : z.number()
+      if (typeof schema.minimum === "number") number = number.min(schema.minimum)
+      if (typeof schema.maximum === "number") number = number.max(schema.maximum)
+      return describe(number)
+    }
+    case "boolean":
+      return describe(z.boolean())
+    case "null":
+      return describe(z.null())
+    default:
+      throw new InvalidSchemaError(`${path}.type must be one of object, array, string, number, integer, boolean or null`)
+  }
+}
+
+// Resolve the schema for a request: either a registered zod schema by name, or a JSON Schema document
+export function resolveExtractionSchema(options: { schemaName?: string; jsonSchema?: unknown }): ExtractionSchema {
+  if (options.schemaName !== undefined) {
+    const validator = namedExtractionSchemas[options.schemaName]
+    if (!validator) {
+      const names = Object.keys(namedExtractionSchemas).join(", ")
+      throw new InvalidSchemaError(`Unknown schema "${options.schemaName}". Available schemas: ${names}`)
+    }
+    return { validator, jsonSchema: zodToJsonSchema(validator, { $refStrategy: "none" }) }
+  }
+
+  if (!isJsonSchema(options.jsonSchema) || options.jsonSchema.type !== "object") {
+    throw new InvalidSchemaError('The JSON Schema must describe an object ("type": "object")')
+  }
+  return { validator: jsonSchemaToZod(options.jsonSchema), jsonSchema: options.jsonSchema }
+}
+
+function buildExtractionPrompt(jsonSchema: object): string {
+  return [
+    "Extract the requested fields from the document image.",
+    'Respond with only a JSON object of the form {"text": "...", "data": {...}} where "text" is all the text in the document',
+    'and "data" matches the JSON Schema below. Use null for fields that do not appear in the document.',
+    "Write numbers without currency symbols or thousands separators, and dates as YYYY-MM-DD.",
+    "",
+    "JSON Schema for data:",
+    JSON.stringify(jsonSchema, null, 2),
+  ].join("\n")
+}
+
+const responseEnvelopeSchema = z.object({
+  text: z.string().default(""),
+  data: z.unknown(),
+})
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "data"}: ${issue.message}`)
+}
+
+// Ask the model for schema-shaped JSON, feeding validation errors back to it until the output
+// matches or the attempts run out
+export async function extractStructuredData(
+  document: OcrDocument,
+  schema: ExtractionSchema,
+  options: { preprocessing?: PreprocessingStep[] } = {},
+): Promise<ExtractionResult> {
+  if (document.pageCount > MAX_EXTRACTION_PAGES) {
+    logger.info("only the first pages are used for extraction", { pages: MAX_EXTRACTION_PAGES, totalPages: document.pageCount })
+  }
+
+  const images: string[] = []
+  for await (const page of document.pages()) {
+    const { dataUrl } = await prepareImage(page, options.preprocessing)
+    images.push(dataUrl)
+    if (images.length === MAX_EXTRACTION_PAGES) {
+      break
+    }
+  }
+
+  const prompt = buildExtractionPrompt(schema.jsonSchema)
+  let issues: string[] = []
+  let raw = ""
+
+  for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+    logger.debug("structured extraction attempt", { attempt, maxAttempts: MAX_EXTRACTION_ATTEMPTS })
+
+    // Retries show the model its previous answer and what was wrong with it
+    const followUp = attempt === 1
+      ? []
+      : [
+          { role: "assistant" as const, content: raw },
+          {
+            role: "user" as const,
+            content: `That response did not match the schema:\n${issues.join("\n")}\nRespond again with only the corrected JSON object.`,
+          },
+        ]
+
+    // A response still cut off after the continuations fails to parse and is retried like any other bad JSON
+    raw = (await getOcrProvider().recognize(images, { prompt, maxTokens: getServerConfig().provider.extractionMaxTokens, followUp })).text
+
+    let envelope: z.infer<typeof responseEnvelopeSchema>
+    try {
+      envelope = responseEnvelopeSchema.parse(parseModelJson(raw))
+    } catch {
+      issues = ['The response was not a JSON object of the form {"text": "...", "data": {...}}']
+      logger.info("extraction attempt returned malformed JSON", { attempt, response: raw })
+      continue
+    }
+
+    const validation = schema.validator.safeParse(envelope.data)
+    if (validation.success) {
+      logger.info("structured extraction succeeded", { attempt })
+      return { data: validation.data, text: envelope.text, attempts: attempt }
+    }
+
+    issues = formatIssues(validation.error)
+    logger.info("extraction attempt failed validation", { attempt, issues: issues.length })
+  }
+
+  throw new ExtractionFailedError(
+    `The model output did not match the schema after ${MAX_EXTRACTION_ATTEMPTS} attempts`,
+    issues,
+    raw,
+  )
+}
@@ -0,0 +1,31 @@
+// Next.js bundles every route separately and dev hot reloads evaluate modules again, so module-level
+// state would exist once per bundle and be lost on every edit. Values kept here live on globalThis
+// instead, so every route bundle shares one copy for the life of the process. Each bundle still has its
+// own copy of every class (e.g. OcrError), so share plain data and objects that do not rely on
+// `instanceof` across bundles.
+const globalForSingletons = globalThis as typeof globalThis & { ocrSingletons?: Map<string, unknown> }
+
+export interface GlobalSingleton<T> {
+  // The shared value, created on first use
+  get(): T
+  // Replace the shared value, e.g. with a store backed by Redis
+  set(value: T): void
+}
+
+export function globalSingleton<T>(key: string, create: () => T): GlobalSingleton<T> {
+  if (!globalForSingletons.ocrSingletons) {
+    globalForSingletons.ocrSingletons = new Map()
+  }
+  const values = globalForSingletons.ocrSingletons
+  return {
+    get() {
+      if (!values.has(key)) {
+        values.set(key, create())
+      }
+      return values.get(key) as T
+    },
+    set(value) {
+      values.set(key, value)
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import type { BoundingBox, OcrLayoutPage } from "@/lib/layout"
+import { escapeXml } from "@/lib/xml"
+
+// hOCR expresses boxes as "bbox x0 y0 x1 y1" in the title property
+function bboxProperty(box: BoundingBox): string {
+  return `bbox ${box.x} ${box.y} ${box.x + box.width} ${box.y + box.height}`
+}
+
+// Serialize layout pages as an hOCR 1.2 document (XHTML with ocr_* classes)
+export function toHocr(layout: OcrLayoutPage[], filename: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">',
+    " <head>",
+    `  <title>${escapeXml(filename)}</title>`,
+    '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>',
+    '  <meta name="ocr-system" content="GravixOCR"/>',
+    '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word"/>',
+    " </head>",
+    " <body>",
+  ]
+
+  for (const page of layout) {
+    const p = page.page
+    const pageBox = { x: 0, y: 0, width: page.width, height: page.height }
+    const pageTitle = `image "${filename}"; ${bboxProperty(pageBox)}; ppageno ${p - 1}`
+    lines.push(`  <div class="ocr_page" id="page_${p}" title="${escapeXml(pageTitle)}">`)
+
+    page.blocks.forEach((block, blockIndex) => {
+      const blockId = `${p}_${blockIndex + 1}`
+      lines.push(`   <div class="ocr_carea" id="block_${blockId}" title="${bboxProperty(block.bbox)}">`)
+      lines.push(`    <p class="ocr_par" id="par_${blockId}" title="${bboxProperty(block.bbox)}">`)
+
+      block.lines.forEach((line, lineIndex) => {
+        const lineId = `${blockId}_${lineIndex + 1}`
+        lines.push(`     <span class="ocr_line" id="line_${lineId}" title="${bboxProperty(line.bbox)}">`)
+        line.words.forEach((word, wordIndex) => {
+          lines.push(
+            `      <span class="ocrx_word" id="word_${lineId}_${wordIndex + 1}" title="${bboxProperty(word.bbox)}">${escapeXml(word.text)}</span>`,
+          )
+        })
+        lines.push("     </span>")
+      })
+
+      lines.push("    </p>")
+      lines.push("   </div>")
+    })
+
+    lines.push("  </div>")
+  }
+
+  lines.push(" </body>", "</html>", "")
+  return lines.join("\n")
+}
@@ -0,0 +1,130 @@
+import sharp from "sharp"
+import { logger, recordTiming } from "@/lib/logger"
+
+// Longest side of an image sent upstream. Vision models downscale anything larger themselves, so
+// sending more pixels only costs bandwidth. Tiles (see lib/tiling.ts) are smaller than this.
+export const MAX_IMAGE_DIMENSION = 2048
+// Target size of the encoded image, before base64 adds another third
+export const IMAGE_BYTE_BUDGET = 1.5 * 1024 * 1024
+
+// JPEG qualities tried in order once lossless PNG is over budget. Below the last one, ringing
+// around strokes starts to merge small characters.
+const JPEG_QUALITIES = [90, 82, 74, 66]
+// When even the lowest quality is over budget, shrink by this factor per attempt...
+const DOWNSCALE_STEP = 0.8
+// ...but never below this longest side, where small print stops being legible
+const MIN_IMAGE_DIMENSION = 1200
+
+export interface EncodedImage {
+  dataUrl: string
+  format: "png" | "jpeg"
+  // JPEG quality, or null for PNG
+  quality: number | null
+  // Dimensions of the encoded image, which is what the model sees
+  width: number
+  height: number
+  bytes: number
+}
+
+interface Candidate {
+  data: Buffer
+  format: EncodedImage["format"]
+  quality: number | null
+  width: number
+  height: number
+}
+
+async function encodeCandidate(
+  image: Buffer,
+  width: number,
+  height: number,
+  format: EncodedImage["format"],
+  quality: number | null,
+): Promise<Candidate> {
+  const resized = sharp(image).resize({ width, height, kernel: sharp.kernel.lanczos3 })
+  const encoder = format === "png"
+    ? resized.png({ compressionLevel: 9, adaptiveFiltering: true })
+    // Full-resolution chroma keeps colored text as sharp as black text
+    : resized.jpeg({ quality: quality ?? JPEG_QUALITIES[0], chromaSubsampling: "4:4:4", mozjpeg: true })
+  const { data, info } = await encoder.toBuffer({ resolveWithObject: true })
+  return { data, format, quality, width: info.width, height: info.height }
+}
+
+// Pick the most legible encoding of an image that fits the byte budget: lossless PNG if it fits,
+// then JPEG at falling quality, then JPEG at shrinking size. Text-heavy scans and screenshots
+// usually stay PNG; photos usually become JPEG. If nothing fits, the smallest attempt is used.
+export async function encodeForUpload(
+  image: Buffer,
+  { maxDimension = MAX_IMAGE_DIMENSION, byteBudget = IMAGE_BYTE_BUDGET } = {},
+): Promise<EncodedImage> {
+  const startedAt = performance.now()
+  const metadata = await sharp(image).metadata()
+  const sourceWidth = metadata.width ?? 0
+  const sourceHeight = metadata.height ?? 0
+
+  const initialScale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight, 1))
+  let scale = initialScale
+  const dimensionsAt = (factor: number) => ({
+    width: Math.max(1, Math.round(sourceWidth * factor)),
+    height: Math.max(1, Math.round(sourceHeight * factor)),
+  })
+
+  let { width, height } = dimensionsAt(scale)
+  let chosen = await encodeCandidate(image, width, height, "png", null)
+  let reason = "lossless PNG fits the budget"
+
+  if (chosen.data.length > byteBudget) {
+    reason = "PNG over budget"
+    for (;;) {
+      let fitted = false
+      for (const quality of JPEG_QUALITIES) {
+        const candidate = await encodeCandidate(image, width, height, "jpeg", quality)
+        if (candidate.data.length < chosen.data.length) {
+          chosen = candidate
+        }
+        if (candidate.data.length <= byteBudget) {
+          fitted = true
+          break
+        }
+      }
+      if (fitted) {
+        reason = scale < initialScale ? "JPEG fits the budget only after downscaling" : "JPEG fits the budget"
+        break
+      }
+
+      const nextScale = scale * DOWNSCALE_STEP
+      const next = dimensionsAt(nextScale)
+      if (Math.max(next.width, next.height) < Math.min(MIN_IMAGE_DIMENSION, Math.max(width, height))) {
+        reason = `nothing fits the ${byteBudget} byte budget without losing legibility; using the smallest encoding`
+        break
+      }
+      scale = nextScale
+      width = next.width
+      height = next.height
+    }
+  }
+
+  const dataUrl = `data:image/${chosen.format};base64,${chosen.data.toString("base64")}`
+  recordTiming("encoding", performance.now() - startedAt)
+  logger.info("encoded image for upload", {
+    format: chosen.format,
+    quality: chosen.quality,
+    width: chosen.width,
+    height: chosen.height,
+    sourceWidth,
+    sourceHeight,
+    reason,
+    processedBytes: image.length,
+    sentBytes: chosen.data.length,
+    dataUrlCharacters: dataUrl.length,
+  })
+
+  return {
+    dataUrl,
+    format: chosen.format,
+    quality: chosen.quality,
+    width: chosen.width,
+    height: chosen.height,
+    bytes: chosen.data.length,
+  }
+}
@@ -0,0 +1,207 @@
+import { waitUntil } from "@vercel/functions"
+import { randomUUID } from "crypto"
+import type { RedisLikeClient } from "@/lib/cache"
+import { getServerConfig } from "@/lib/config"
+import { OcrError, toApiError, type ApiError } from "@/lib/errors"
+import { globalSingleton } from "@/lib/global-singleton"
+import { logger } from "@/lib/logger"
+import { loadOcrDocument, recognizeDocument, type OcrResult } from "@/lib/ocr"
+import type { PreprocessingStep } from "@/lib/preprocessing"
+import type { TilingMode } from "@/lib/tiling"
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed"
+
+export interface JobProgress {
+  completedPages: number
+  // Unknown until the upload has been split into pages
+  totalPages: number | null
+}
+
+export interface Job {
+  id: string
+  status: JobStatus
+  progress: JobProgress
+  result: OcrResult | null
+  error: ApiError | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type JobUpdate = Partial<Pick<Job, "status" | "progress" | "result" | "error">>
+
+// Read from the environment by lib/config.ts
+export interface JobConfig {
+  // Jobs exist for long documents, so they accept more pages than a single request
+  maxPdfPages: number
+  // A job still running after this long is stopped and fails with JOB_TIMEOUT
+  timeoutMs: number
+}
+
+// Storage backend for jobs. Implement this to share jobs across instances (e.g. a database), or use
+// createRedisJobStore().
+export interface JobStore {
+  readonly name: string
+  create(job: Job): Promise<void>
+  get(id: string): Promise<Job | null>
+  update(id: string, changes: JobUpdate): Promise<Job | null>
+}
+
+// Jobs are kept for an hour after their last update, so clients have time to poll for the result
+const DEFAULT_JOB_TTL_MS = 60 * 60 * 1000
+
+// In-memory store used by default. Jobs only live as long as the server process.
+export function createMemoryJobStore(ttlMs: number = DEFAULT_JOB_TTL_MS): JobStore {
+  const jobs = new Map<string, Job>()
+
+  // A running job is updated after every page and stopped after OCR_JOB_TIMEOUT_MS, so one that has not
+  // been updated for the whole TTL was abandoned and goes the same way as a finished one
+  const evictExpired = () => {
+    const cutoff = Date.now() - ttlMs
+    for (const [id, job] of jobs) {
+      if (Date.parse(job.updatedAt) < cutoff) {
+        jobs.delete(id)
+      }
+    }
+  }
+
+  return {
+    name: "memory",
+    async create(job) {
+      evictExpired()
+      jobs.set(job.id, { ...job })
+    },
+    async get(id) {
+      const job = jobs.get(id)
+      return job ? { ...job } : null
+    },
+    async update(id, changes) {
+      const job = jobs.get(id)
+      if (!job) {
+        return null
+      }
+      const updated = { ...job, ...changes, updatedAt: new Date().toISOString() }
+      jobs.set(id, updated)
+      return { ...updated }
+    },
+  }
+}
+
+// Jobs shared by every instance that talks to the same Redis-compatible server. Each job expires `ttlMs`
+// after its last update. Updates read and rewrite the whole job; only the instance running a job updates it.
+export function createRedisJobStore(
+  client: RedisLikeClient,
+  { ttlMs = DEFAULT_JOB_TTL_MS, prefix = "ocr:job:" }: { ttlMs?: number; prefix?: string } = {},
+): JobStore {
+  const get = async (id: string) => {
+    const value = await client.get(prefix + id)
+    return value === null ? null : (JSON.parse(value) as Job)
+  }
+
+  return {
+    name: "redis",
+    async create(job) {
+      await client.set(prefix + job.id, JSON.stringify(job), ttlMs)
+    },
+    get,
+    async update(id, changes) {
+      const job = await get(id)
+      if (!job) {
+        return null
+      }
+      const updated = { ...job, ...changes, updatedAt: new Date().toISOString() }
+      await client.set(prefix + id, JSON.stringify(updated), ttlMs)
+      return updated
+    },
+  }
+}
+
+const activeStore = globalSingleton<JobStore>("jobStore", () => createMemoryJobStore())
+
+export function getJobStore(): JobStore {
+  return activeStore.get()
+}
+
+export function setJobStore(store: JobStore) {
+  activeStore.set(store)
+}
+
+// Create a queued OCR job and start processing it in the background
+export async function startOcrJob(
+  buffer: Buffer,
+  mimeType: string,
+  dpi: number,
+  preprocessing?: PreprocessingStep[],
+  tiling?: TilingMode,
+): Promise<Job> {
+  const store = getJobStore()
+  // A serverless function only sees its own memory, so a job polled on another instance would be missing
+  if (process.env.VERCEL && store.name === "memory") {
+    throw new OcrError(
+      "JOB_STORE_NOT_CONFIGURED",
+      "Asynchronous jobs need a shared job store on serverless deployments; register one with setJobStore()",
+    )
+  }
+
+  const now = new Date().toISOString()
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    progress: { completedPages: 0, totalPages: null },
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+  await store.create(job)
+
+  // Not awaited: the caller polls the store for the outcome. waitUntil keeps a serverless function alive
+  // until the job finishes, which the job timeout keeps within the route's maxDuration; on a long-running
+  // server it does nothing.
+  waitUntil(runOcrJob(store, job.id, buffer, mimeType, dpi, preprocessing, tiling))
+
+  return job
+}
+
+async function runOcrJob(
+  store: JobStore,
+  id: string,
+  buffer: Buffer,
+  mimeType: string,
+  dpi: number,
+  preprocessing?: PreprocessingStep[],
+  tiling?: TilingMode,
+) {
+  const config = getServerConfig().jobs
+  // Stops the job, including the upstream request in flight, before the platform kills it mid-page and
+  // leaves it "processing" for good
+  const signal = AbortSignal.timeout(config.timeoutMs)
+  logger.info("job started", { jobId: id })
+  try {
+    await store.update(id, { status: "processing" })
+
+    const document = await loadOcrDocument(buffer, mimeType, dpi, config.maxPdfPages)
+    await store.update(id, { progress: { completedPages: 0, totalPages: document.pageCount } })
+
+    const result = await recognizeDocument(document, {
+      preprocessing,
+      tiling,
+      signal,
+      onProgress: async (completedPages, totalPages) => {
+        await store.update(id, { progress: { completedPages, totalPages } })
+      },
+    })
+
+    await store.update(id, { status: "completed", result })
+    logger.info("job completed", { jobId: id })
+  } catch (error) {
+    const failure = signal.aborted
+      ? new OcrError("JOB_TIMEOUT", `The job did not finish within ${Math.round(config.timeoutMs / 1000)} seconds`, {
+          timeoutMs: config.timeoutMs,
+        })
+      : error
+    logger.error("job failed", { jobId: id, error: failure })
+    await store.update(id, { status: "failed", error: toApiError(failure) }).catch((updateError) => {
+      logger.error("could not record the job failure", { jobId: id, error: updateError })
+    })
+  }
+}
@@ -0,0 +1,7 @@
+// Parse JSON from a model response. Models often wrap JSON in markdown code fences, so strip them first.
+// Throws a SyntaxError if no valid JSON is found.
+export function parseModelJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidate = (fenced ? fenced[1] : content).trim()
+  return JSON.parse(candidate)
+}
@@ -0,0 +1,185 @@
+import { z } from "zod"
+import { OcrError } from "@/lib/errors"
+import { parseModelJson } from "@/lib/json"
+import { logger } from "@/lib/logger"
+import type { Tile } from "@/lib/tiling"
+
+// Pixel rectangle with the origin at the top-left corner of the page
+export interface BoundingBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface OcrWord {
+  text: string
+  bbox: BoundingBox
+}
+
+export interface OcrLine {
+  text: string
+  bbox: BoundingBox
+  words: OcrWord[]
+}
+
+export interface OcrBlock {
+  text: string
+  bbox: BoundingBox
+  lines: OcrLine[]
+}
+
+export interface OcrLayoutPage {
+  page: number
+  // Dimensions of the original upload (or of the rasterized PDF page) that the boxes refer to
+  width: number
+  height: number
+  blocks: OcrBlock[]
+}
+
+// What the model is asked to produce: [x0, y0, x1, y1] corners in the pixel space of the image it was sent
+const modelWordSchema = z.object({
+  text: z.string(),
+  bbox: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+})
+
+// Missing arrays are treated as empty so an otherwise usable response isn't thrown away
+const modelLayoutSchema = z.object({
+  blocks: z.array(
+    z.object({
+      lines: z
+        .array(
+          z.object({
+            words: z.array(modelWordSchema).default([]),
+          }),
+        )
+        .default([]),
+    }),
+  ),
+})
+
+type ModelLayout = z.infer<typeof modelLayoutSchema>
+
+export function buildLayoutPrompt(width: number, height: number): string {
+  return [
+    `Extract all the text from the image together with its layout. The image is ${width}x${height} pixels.`,
+    'Respond with only a JSON object of the form {"blocks":[{"lines":[{"words":[{"text":"...","bbox":[x0,y0,x1,y1]}]}]}]}.',
+    "Each bbox is the pixel bounding box of one word, with (0,0) at the top-left corner of the image.",
+    "Group words into lines and lines into blocks (paragraphs, columns or table cells), all in reading order.",
+    "Do not return anything other than the JSON object.",
+  ].join(" ")
+}
+
+function unionBoxes(boxes: BoundingBox[]): BoundingBox {
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 }
+  }
+  const x0 = Math.min(...boxes.map((box) => box.x))
+  const y0 = Math.min(...boxes.map((box) => box.y))
+  const x1 = Math.max(...boxes.map((box) => box.x + box.width))
+  const y1 = Math.max(...boxes.map((box) => box.y + box.height))
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+}
+
+// Scale a box from the processed image to the corrected one, undo the rotation and clamp it to the original bounds
+function toOriginalBox(
+  [x0, y0, x1, y1]: [number, number, number, number],
+  scaleX: number,
+  scaleY: number,
+  toOriginal: (box: BoundingBox) => BoundingBox,
+  width: number,
+  height: number,
+): BoundingBox {
+  const left = Math.min(x0, x1) * scaleX
+  const top = Math.min(y0, y1) * scaleY
+  const box = toOriginal({ x: left, y: top, width: Math.max(x0, x1) * scaleX - left, height: Math.max(y0, y1) * scaleY - top })
+  const clampX = (value: number) => Math.min(Math.max(Math.round(value), 0), width)
+  const clampY = (value: number) => Math.min(Math.max(Math.round(value), 0), height)
+  const x = clampX(box.x)
+  const y = clampY(box.y)
+  return { x, y, width: clampX(box.x + box.width) - x, height: clampY(box.y + box.height) - y }
+}
+
+export interface LayoutDimensions {
+  // Image after preprocessing, which the model saw whole unless `tile` is set
+  processedWidth: number
+  processedHeight: number
+  // Upload the coordinates should refer to
+  originalWidth: number
+  originalHeight: number
+  // Image after rotation and deskewing, before the remaining preprocessing. Defaults to the original
+  // dimensions when the image was not rotated.
+  correctedWidth?: number
+  correctedHeight?: number
+  // Map a box in the corrected image back to the upload
+  toOriginal?: (box: BoundingBox) => BoundingBox
+  // The part of the processed image the model saw when it was split into tiles. Words centered
+  // outside the part the tile owns are dropped, since the neighbouring tile reports them.
+  tile?: Pick<Tile, "x" | "y" | "owned">
+}
+
+// Parse the model's layout JSON and map every box from processed-image pixels to original pixels,
+// undoing any rotation on the way.
+// Throws if the response is not valid layout JSON.
+export function parseLayoutResponse(content: string, page: number, dimensions: LayoutDimensions): OcrLayoutPage {
+  let layout: ModelLayout
+  try {
+    layout = modelLayoutSchema.parse(parseModelJson(content))
+  } catch (error) {
+    // Parse errors quote the response, so only their kind is logged unless content logging is on
+    logger.warn("model returned an invalid layout response", {
+      page,
+      reason: error instanceof z.ZodError ? `${error.issues.length} schema issue(s)` : "not valid JSON",
+      response: content,
+    })
+    throw new OcrError("UPSTREAM_ERROR", "The model returned an invalid layout response")
+  }
+
+  const { processedWidth, processedHeight, originalWidth, originalHeight } = dimensions
+  const { correctedWidth = originalWidth, correctedHeight = originalHeight, toOriginal = (box: BoundingBox) => box } = dimensions
+  const scaleX = processedWidth > 0 ? correctedWidth / processedWidth : 1
+  const scaleY = processedHeight > 0 ? correctedHeight / processedHeight : 1
+  const { x: offsetX, y: offsetY, owned } = dimensions.tile ?? { x: 0, y: 0, owned: null }
+
+  const inProcessedImage = ([x0, y0, x1, y1]: [number, number, number, number]): [number, number, number, number] =>
+    [x0 + offsetX, y0 + offsetY, x1 + offsetX, y1 + offsetY]
+  const isOwned = ([x0, y0, x1, y1]: [number, number, number, number]) => {
+    if (!owned) return true
+    const centerX = (x0 + x1) / 2
+    const centerY = (y0 + y1) / 2
+    return centerX >= owned.x0 && centerX < owned.x1 && centerY >= owned.y0 && centerY < owned.y1
+  }
+
+  const blocks: OcrBlock[] = layout.blocks
+    .map((block) => {
+      const lines: OcrLine[] = block.lines
+        .map((line) => {
+          const words: OcrWord[] = line.words
+            .map((word) => ({ text: word.text, bbox: inProcessedImage(word.bbox) }))
+            .filter((word) => word.text.trim() !== "" && isOwned(word.bbox))
+            .map((word) => ({
+              text: word.text,
+              bbox: toOriginalBox(word.bbox, scaleX, scaleY, toOriginal, originalWidth, originalHeight),
+            }))
+          return {
+            text: words.map((word) => word.text).join(" "),
+            bbox: unionBoxes(words.map((word) => word.bbox)),
+            words,
+          }
+        })
+        .filter((line) => line.words.length > 0)
+      return {
+        text: lines.map((line) => line.text).join("\n"),
+        bbox: unionBoxes(lines.map((line) => line.bbox)),
+        lines,
+      }
+    })
+    .filter((block) => block.lines.length > 0)
+
+  return { page, width: originalWidth, height: originalHeight, blocks }
+}
+
+// Plain text for a layout page, matching the text-only output format
+export function layoutToText(layoutPage: OcrLayoutPage): string {
+  return layoutPage.blocks.map((block) => block.text).join("\n\n")
+}
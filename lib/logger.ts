@@ -0,0 +1,207 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { randomUUID } from "crypto"
+import { getLoggerConfig } from "@/lib/config"
+import { globalSingleton } from "@/lib/global-singleton"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+export type LogFields = Record<string, unknown>
+
+// Read from the environment by lib/config.ts:
+//   OCR_LOG_LEVEL    "debug", "info" (default), "warn" or "error"
+//   OCR_LOG_CONTENT  "true" to log document content for debugging (default false)
+export interface LoggerConfig {
+  level: LogLevel
+  // Log recognized text, prompts and images in full instead of only their size
+  logContent: boolean
+}
+
+// Fields that hold credentials are always masked, whatever their value
+const SECRET_FIELD_PATTERN = /authorization|cookie|password|secret|api[-_]?key|access[-_]?token|bearer/i
+// Fields that hold document content or model input and output; only their length is logged by default
+const CONTENT_FIELDS = new Set(["text", "content", "prompt", "dataUrl", "delta", "response"])
+// Environment variables whose values must never appear in a log line, wherever they turn up
+const SECRET_ENV_VARS = ["GRAVIXLAYER_API_KEY", "OCR_API_KEY"]
+// Values nested deeper than this are summarized rather than walked
+const MAX_DEPTH = 6
+
+const REDACTED = "[REDACTED]"
+
+// Mask secrets inside free text: provider keys from the environment, bearer tokens and client keys
+function scrubString(value: string, config: LoggerConfig): string {
+  let scrubbed = value
+  for (const name of SECRET_ENV_VARS) {
+    const secret = process.env[name]
+    // Short values would mask unrelated text and are not worth guessing anyway
+    if (secret && secret.length >= 8) {
+      scrubbed = scrubbed.split(secret).join(REDACTED)
+    }
+  }
+  scrubbed = scrubbed
+    .replace(/\bBearer\s+\S+/gi, `Bearer ${REDACTED}`)
+    .replace(/\bocr_[A-Za-z0-9_-]{16,}/g, REDACTED)
+  if (!config.logContent) {
+    scrubbed = scrubbed.replace(/data:([\w/+.-]+);base64,[A-Za-z0-9+/=]+/g, (_, mimeType: string) => `data:${mimeType};base64,[...]`)
+  }
+  return scrubbed
+}
+
+function describeContent(value: unknown): string {
+  if (typeof value === "string") {
+    return `[${value.length} characters]`
+  }
+  if (Buffer.isBuffer(value)) {
+    return `[${value.length} bytes]`
+  }
+  return Array.isArray(value) ? `[${value.length} items]` : "[content]"
+}
+
+function serializeError(error: Error, config: LoggerConfig, depth: number): LogFields {
+  const code = (error as { code?: unknown }).code
+  return {
+    name: error.name,
+    message: scrubString(error.message, config),
+    ...(code !== undefined && { code }),
+    // Coded errors are expected outcomes; only unexpected ones need a stack trace
+    ...(code === undefined && error.stack && { stack: scrubString(error.stack, config) }),
+    ...(error.cause !== undefined && { cause: redact(error.cause, config, depth + 1) }),
+  }
+}
+
+// Copy a value for logging with secrets masked and, unless content logging is on, content replaced by its size
+function redact(value: unknown, config: LoggerConfig, depth = 0, key?: string): unknown {
+  if (key !== undefined && SECRET_FIELD_PATTERN.test(key)) {
+    return REDACTED
+  }
+  if (key !== undefined && CONTENT_FIELDS.has(key) && !config.logContent && value != null) {
+    return describeContent(value)
+  }
+  if (typeof value === "string") {
+    return scrubString(value, config)
+  }
+  if (value === null || typeof value !== "object") {
+    return typeof value === "bigint" ? value.toString() : value
+  }
+  if (Buffer.isBuffer(value) || value instanceof Uint8Array) {
+    return `[${value.length} bytes]`
+  }
+  if (value instanceof Error) {
+    return serializeError(value, config, depth)
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[...]"
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, config, depth + 1))
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([entryKey, entryValue]) => [entryKey, redact(entryValue, config, depth + 1, entryKey)]),
+  )
+}
+
+// What is known about the request being handled, carried across awaits by AsyncLocalStorage
+interface RequestContext {
+  requestId: string
+  startedAt: number
+  // Milliseconds spent in each stage, summed over pages, tiles and retries
+  timings: Record<string, number>
+}
+
+const requestContext = globalSingleton("requestContext", () => new AsyncLocalStorage<RequestContext>())
+
+function requestContextStorage(): AsyncLocalStorage<RequestContext> {
+  return requestContext.get()
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}) {
+  const config = getLoggerConfig()
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(config.level)) {
+    return
+  }
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: scrubString(msg, config),
+    requestId: requestContextStorage().getStore()?.requestId,
+    ...(redact(fields, config) as LogFields),
+  }
+  const line = JSON.stringify(entry)
+  if (level === "error" || level === "warn") {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+// One JSON object per line, tagged with the current request's ID. Field values are redacted before they
+// are written: pass content under a content field name (e.g. `text`) so it is only logged when
+// OCR_LOG_CONTENT is on.
+export const logger = {
+  debug: (msg: string, fields?: LogFields) => write("debug", msg, fields),
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+}
+
+// Accept a caller's own correlation ID if it is short and plain enough to log safely
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+export function getRequestId(): string | undefined {
+  return requestContextStorage().getStore()?.requestId
+}
+
+// Add time spent in a stage to the current request's timings
+export function recordTiming(stage: string, durationMs: number) {
+  const context = requestContextStorage().getStore()
+  if (context) {
+    context.timings[stage] = (context.timings[stage] ?? 0) + Math.round(durationMs)
+  }
+}
+
+// Run one stage of the work and record how long it took, whether or not it succeeded
+export async function timeStage<T>(stage: string, run: () => Promise<T>): Promise<T> {
+  const startedAt = performance.now()
+  try {
+    return await run()
+  } finally {
+    recordTiming(stage, performance.now() - startedAt)
+  }
+}
+
+// Timings recorded so far, plus the total time since the request arrived
+export function requestTimings(): LogFields {
+  const context = requestContextStorage().getStore()
+  if (!context) {
+    return {}
+  }
+  return { durationMs: Math.round(performance.now() - context.startedAt), timings: { ...context.timings } }
+}
+
+// Handle a request with its own correlation ID: taken from the X-Request-Id header when the caller sent a
+// usable one, generated otherwise. The ID tags every log line written while handling it and is returned in
+// the response's X-Request-Id header. Streamed responses keep logging under the same ID after this returns.
+export async function runWithRequestContext(request: Request, handler: () => Promise<Response>): Promise<Response> {
+  const incomingId = request.headers.get("x-request-id")
+  const context: RequestContext = {
+    requestId: incomingId && REQUEST_ID_PATTERN.test(incomingId) ? incomingId : randomUUID(),
+    startedAt: performance.now(),
+    timings: {},
+  }
+
+  return requestContextStorage().run(context, async () => {
+    const { pathname } = new URL(request.url)
+    logger.info("request started", { method: request.method, path: pathname })
+
+    const response = await handler()
+    response.headers.set("X-Request-Id", context.requestId)
+
+    const level = response.status >= 500 ? "error" : response.status >= 400 ? "warn" : "info"
+    logger[level]("request finished", { method: request.method, path: pathname, status: response.status, ...requestTimings() })
+    return response
+  })
+}
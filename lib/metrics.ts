@@ -0,0 +1,184 @@
+import { globalSingleton } from "@/lib/global-singleton"
+
+// Counters and histograms for the OCR service, exposed by /api/metrics in the Prometheus text format
+export type MetricLabels = Record<string, string>
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void
+}
+
+export interface Histogram {
+  observe(value: number, labels?: MetricLabels): void
+}
+
+interface CounterSeries {
+  labels: MetricLabels
+  value: number
+}
+
+interface HistogramSeries {
+  labels: MetricLabels
+  // Observations per bucket (not cumulative); the last entry counts values above the highest bound
+  bucketCounts: number[]
+  sum: number
+  count: number
+}
+
+type MetricData =
+  | { type: "counter"; help: string; series: Map<string, CounterSeries> }
+  | { type: "histogram"; help: string; buckets: number[]; series: Map<string, HistogramSeries> }
+
+// Only the series are shared; each bundle builds its own Counter and Histogram objects around them
+const metrics = globalSingleton("metrics", () => new Map<string, MetricData>())
+
+function registry(): Map<string, MetricData> {
+  return metrics.get()
+}
+
+// Series are keyed by their labels in name order, so { a, b } and { b, a } are the same series
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]))
+}
+
+export function createCounter(name: string, help: string): Counter {
+  return {
+    inc(labels = {}, value = 1) {
+      let metric = registry().get(name)
+      if (!metric) {
+        metric = { type: "counter", help, series: new Map() }
+        registry().set(name, metric)
+      }
+      if (metric.type !== "counter") {
+        return
+      }
+      const key = seriesKey(labels)
+      const series = metric.series.get(key) ?? { labels, value: 0 }
+      series.value += value
+      metric.series.set(key, series)
+    },
+  }
+}
+
+// `buckets` are the upper bounds, in ascending order; +Inf is added automatically
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  return {
+    observe(value, labels = {}) {
+      let metric = registry().get(name)
+      if (!metric) {
+        metric = { type: "histogram", help, buckets, series: new Map() }
+        registry().set(name, metric)
+      }
+      if (metric.type !== "histogram") {
+        return
+      }
+      const key = seriesKey(labels)
+      const series = metric.series.get(key) ?? { labels, bucketCounts: new Array(metric.buckets.length + 1).fill(0), sum: 0, count: 0 }
+      const bucket = metric.buckets.findIndex((bound) => value <= bound)
+      series.bucketCounts[bucket === -1 ? metric.buckets.length : bucket]++
+      series.sum += value
+      series.count++
+      metric.series.set(key, series)
+    },
+  }
+}
+
+// Run `fn` and record how long it took, in seconds, whether or not it succeeded
+export async function measureDuration<T>(histogram: Histogram, fn: () => Promise<T>, labels?: MetricLabels): Promise<T> {
+  const startedAt = performance.now()
+  try {
+    return await fn()
+  } finally {
+    histogram.observe((performance.now() - startedAt) / 1000, labels)
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+  return pairs.length === 0 ? "" : `{${pairs.join(",")}}`
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) {
+    return "+Inf"
+  }
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)))
+}
+
+// Every metric recorded so far, in the Prometheus text exposition format (version 0.0.4)
+export function renderMetrics(): string {
+  const lines: string[] = []
+  for (const [name, metric] of Array.from(registry().entries()).sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`)
+    lines.push(`# TYPE ${name} ${metric.type}`)
+
+    if (metric.type === "counter") {
+      for (const series of Array.from(metric.series.values())) {
+        lines.push(`${name}${formatLabels(series.labels)} ${formatValue(series.value)}`)
+      }
+      continue
+    }
+
+    for (const series of Array.from(metric.series.values())) {
+      let cumulative = 0
+      const bounds = [...metric.buckets, Infinity]
+      bounds.forEach((bound, index) => {
+        cumulative += series.bucketCounts[index]
+        lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`)
+      })
+      lines.push(`${name}_sum${formatLabels(series.labels)} ${formatValue(series.sum)}`)
+      lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`)
+    }
+  }
+  return `${lines.join("\n")}\n`
+}
+
+// Routes with an ID in the path are reported under their pattern, so each job does not become its own series
+export function routeLabel(pathname: string): string {
+  return pathname.replace(/^\/api\/jobs\/[^/]+$/, "/api/jobs/[id]")
+}
+
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]
+
+export const httpRequests = createCounter(
+  "ocr_http_requests_total",
+  "API requests by route, method and response status",
+)
+
+export const httpRequestDuration = createHistogram(
+  "ocr_http_request_duration_seconds",
+  "Time until the response started, by route. Streamed responses start before recognition finishes.",
+  DURATION_BUCKETS,
+)
+
+export const preprocessingDuration = createHistogram(
+  "ocr_preprocessing_duration_seconds",
+  "Time spent preprocessing one image, PDF page or region",
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+)
+
+export const upstreamDuration = createHistogram(
+  "ocr_upstream_request_duration_seconds",
+  "Latency of each completion call to the OCR provider, including streaming, by provider and outcome",
+  DURATION_BUCKETS,
+)
+
+export const upstreamErrors = createCounter(
+  "ocr_upstream_errors_total",
+  "Failed completion calls by provider and error: the HTTP status, or timeout, connection or other",
+)
+
+export const inputBytes = createHistogram(
+  "ocr_input_bytes",
+  "Size of each uploaded image or PDF, by kind",
+  [10_000, 50_000, 100_000, 250_000, 500_000, 1_000_000, 2_500_000, 5_000_000, 10_000_000],
+)
+
+export const outputCharacters = createHistogram(
+  "ocr_output_characters",
+  "Characters of text recognized per image, PDF page or region, by format",
+  [0, 10, 100, 500, 1000, 2500, 5000, 10_000, 25_000, 50_000],
+)
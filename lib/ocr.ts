@@ -0,0 +1,525 @@
+import sharp from "sharp"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { encodeForUpload } from "@/lib/image-encoding"
+import {
+  buildLayoutPrompt,
+  layoutToText,
+  parseLayoutResponse,
+  type BoundingBox,
+  type LayoutDimensions,
+  type OcrLayoutPage,
+} from "@/lib/layout"
+import { logger, timeStage } from "@/lib/logger"
+import { inputBytes, measureDuration, outputCharacters, preprocessingDuration } from "@/lib/metrics"
+import { DEFAULT_PDF_DPI, MAX_PDF_DPI, MIN_PDF_DPI, countPdfPages, isPdf, rasterizePdf } from "@/lib/pdf"
+import {
+  DEFAULT_PREPROCESSING_PRESET,
+  applyPreprocessing,
+  describePreprocessing,
+  orientationOptions,
+  preprocessingPresets,
+  type PreprocessingStep,
+} from "@/lib/preprocessing"
+import { NO_CORRECTIONS, correctOrientation, type ImageCorrections } from "@/lib/orientation"
+import { getOcrProvider } from "@/lib/providers"
+import type { ProviderResponse } from "@/lib/providers/types"
+import { cropRegions, displayedSize, offsetLayoutBlocks, type CropRegion } from "@/lib/regions"
+import { TILE_CONCURRENCY, cropTile, mergeTileText, planTiles, shouldTile, type Tile, type TilingMode } from "@/lib/tiling"
+import { formatFileSize } from "@/lib/utils"
+
+export interface OcrPageResult {
+  page: number
+  text: string
+  corrections: ImageCorrections
+  // The model's output was still cut off at the token limit after the allowed continuations
+  truncated: boolean
+}
+
+export interface OcrResult {
+  text: string
+  // True when the text of any page is incomplete
+  truncated: boolean
+  // Rotation applied before recognition; only present for image uploads (PDF pages report their own)
+  corrections?: ImageCorrections
+  // Only present for PDF uploads
+  pages?: OcrPageResult[]
+  // Only present when the layout format was requested
+  layout?: OcrLayoutPage[]
+  // Only present when regions of an image were requested
+  regions?: OcrRegionResult[]
+}
+
+export interface OcrRegionResult {
+  // 1-based, in the order the regions were requested
+  region: number
+  bbox: CropRegion
+  text: string
+  corrections: ImageCorrections
+  truncated: boolean
+}
+
+// "text" returns plain text only; "layout" adds blocks, lines and words with bounding boxes.
+// "hocr", "alto" and "pdf" are recognized like "layout" and serialized by the route.
+export type OcrOutputFormat = "text" | "layout" | "hocr" | "alto" | "pdf"
+
+// Returned as the text of an image the model found nothing in
+export const NO_TEXT_FOUND = "No text could be extracted from the image"
+
+// The images that will be sent to the model for a single upload
+export interface OcrDocument {
+  kind: "image" | "pdf"
+  pageCount: number
+  // The image of each page, in order. PDF pages are rasterized as the iteration reaches them, so only one
+  // rendering is held in memory at a time; each call renders the document afresh.
+  pages(): AsyncIterable<Buffer>
+}
+
+// A document of a single image, e.g. an image upload or a cropped region
+export function imageDocument(buffer: Buffer): OcrDocument {
+  return {
+    kind: "image",
+    pageCount: 1,
+    async *pages() {
+      yield buffer
+    },
+  }
+}
+
+// Returns a PAYLOAD_TOO_LARGE error for uploads over OCR_MAX_UPLOAD_BYTES, or null when the size is fine.
+// The web UI applies the same limit before uploading.
+export function checkUploadSize(file: File, maxBytes: number = getServerConfig().maxUploadBytes): OcrError | null {
+  if (file.size <= maxBytes) {
+    return null
+  }
+  return new OcrError("PAYLOAD_TOO_LARGE", `Files must be under ${formatFileSize(maxBytes)}`, {
+    size: file.size,
+    limit: maxBytes,
+  })
+}
+
+export type OcrProgressHandler = (completedPages: number, totalPages: number) => void | Promise<void>
+
+// Parse the optional "dpi" form field used when rasterizing PDF uploads
+export function parseDpi(value: FormDataEntryValue | null): number | null {
+  if (value === null || value === "") {
+    return DEFAULT_PDF_DPI
+  }
+  const dpi = Number(value)
+  if (!Number.isFinite(dpi) || dpi < MIN_PDF_DPI || dpi > MAX_PDF_DPI) {
+    return null
+  }
+  return Math.round(dpi)
+}
+
+export const OCR_OUTPUT_FORMATS: OcrOutputFormat[] = ["text", "layout", "hocr", "alto", "pdf"]
+
+// Parse the optional "format" form field, defaulting to plain text
+export function parseOutputFormat(value: FormDataEntryValue | null): OcrOutputFormat | null {
+  if (value === null || value === "") {
+    return "text"
+  }
+  return OCR_OUTPUT_FORMATS.find((format) => format === value) ?? null
+}
+
+export interface ProcessedImage {
+  // Lossless; encodeForUpload() picks the format actually sent to the model
+  buffer: Buffer
+  // Dimensions after preprocessing
+  width: number
+  height: number
+  // Dimensions of the upload as displayed (after EXIF orientation), used to map coordinates back to it
+  originalWidth: number
+  originalHeight: number
+  // Dimensions after rotation and deskewing, before the remaining preprocessing steps
+  correctedWidth: number
+  correctedHeight: number
+  corrections: ImageCorrections
+  // Map a box in the corrected image back to the upload
+  toOriginal: (box: BoundingBox) => BoundingBox
+}
+
+// Image processing function to enhance OCR accuracy
+async function preprocessImage(imageBuffer: Buffer, steps: PreprocessingStep[]): Promise<ProcessedImage> {
+  let originalWidth = 0
+  let originalHeight = 0
+
+  try {
+    logger.debug("preprocessing image", { steps: describePreprocessing(steps) })
+    
+    // Get image metadata
+    const metadata = await sharp(imageBuffer).metadata()
+    logger.debug("original image", { width: metadata.width, height: metadata.height, format: metadata.format })
+    originalWidth = metadata.width ?? 0
+    originalHeight = metadata.height ?? 0
+
+    // Turn the page upright first so the remaining steps see the image as it will be read
+    const oriented = await correctOrientation(imageBuffer, orientationOptions(steps))
+    
+    const processedImage = applyPreprocessing(sharp(oriented.buffer), steps, oriented.width, oriented.height)
+    
+    // Convert to PNG for lossless quality
+    const { data: processedBuffer, info } = await processedImage.png({ 
+      quality: 100,
+      compressionLevel: 0 
+    }).toBuffer({ resolveWithObject: true })
+    
+    logger.debug("preprocessing finished", { originalBytes: imageBuffer.length, processedBytes: processedBuffer.length })
+    return {
+      buffer: processedBuffer,
+      width: info.width,
+      height: info.height,
+      originalWidth: oriented.originalWidth,
+      originalHeight: oriented.originalHeight,
+      correctedWidth: oriented.width,
+      correctedHeight: oriented.height,
+      corrections: oriented.corrections,
+      toOriginal: oriented.toOriginal,
+    }
+    
+  } catch (error) {
+    logger.warn("image preprocessing failed, falling back to the original image", { error })
+    return {
+      buffer: imageBuffer,
+      width: originalWidth,
+      height: originalHeight,
+      originalWidth,
+      originalHeight,
+      correctedWidth: originalWidth,
+      correctedHeight: originalHeight,
+      corrections: NO_CORRECTIONS,
+      toOriginal: (box) => box,
+    }
+  }
+}
+
+// Preprocess an image, counting the time towards the request's "preprocessing" stage and the
+// preprocessing duration metric
+export async function processImageForOCR(
+  imageBuffer: Buffer,
+  steps: PreprocessingStep[] = preprocessingPresets()[DEFAULT_PREPROCESSING_PRESET],
+): Promise<ProcessedImage> {
+  return measureDuration(preprocessingDuration, () => timeStage("preprocessing", () => preprocessImage(imageBuffer, steps)))
+}
+
+const TEXT_PROMPT = 'Extract all the text from the image. Make sure to only return the extracted text and nothing else.'
+
+const TILE_TEXT_PROMPT = [
+  "The image is one section of a larger page, so lines at its edges may be cut off.",
+  "Extract all the text from the image, keeping line breaks, and only return the extracted text and nothing else.",
+].join(" ")
+
+// Every prompt that shapes recognition output (the layout prompt with placeholder dimensions), so that
+// cached results are not reused once a prompt changes
+export const RECOGNITION_PROMPTS = [TEXT_PROMPT, TILE_TEXT_PROMPT, buildLayoutPrompt(0, 0)]
+
+export type OcrStage = "preprocessing" | "inference"
+
+export interface ExtractTextHooks {
+  // Called as each stage of the page begins
+  onStage?: (stage: OcrStage) => void
+  // When set, the completion is streamed and each text delta is forwarded here.
+  // Tiled images are recognized in parallel and are not streamed.
+  onToken?: (delta: string) => void
+  // Aborts the upstream requests
+  signal?: AbortSignal
+}
+
+// Preprocess an image and encode it as a data URL for the model
+export async function prepareImage(
+  imageBuffer: Buffer,
+  preprocessing?: PreprocessingStep[],
+): Promise<{ processedImage: ProcessedImage; dataUrl: string }> {
+  // Process the image to enhance OCR accuracy
+  const processedImage = await processImageForOCR(imageBuffer, preprocessing)
+  
+  // Shrink the processed image to a size worth sending upstream
+  const { dataUrl } = await encodeForUpload(processedImage.buffer)
+
+  return { processedImage, dataUrl }
+}
+
+// Split a processed image into overlapping tiles and send them to the model in parallel.
+// Results are returned in tile order.
+async function recognizeTiles(
+  processedImage: ProcessedImage,
+  recognizeTile: (dataUrl: string, tile: Tile) => Promise<ProviderResponse>,
+): Promise<{ tiles: Tile[]; responses: ProviderResponse[] }> {
+  const tiles = planTiles(processedImage.width, processedImage.height)
+  logger.info("splitting image into tiles", { width: processedImage.width, height: processedImage.height, tiles: tiles.length })
+
+  const responses = await mapWithConcurrency(tiles, TILE_CONCURRENCY, async (tile) => {
+    const tileBuffer = await cropTile(processedImage.buffer, tile)
+    const { dataUrl } = await encodeForUpload(tileBuffer)
+    return recognizeTile(dataUrl, tile)
+  })
+  return { tiles, responses }
+}
+
+// Run a single image through preprocessing and the configured OCR provider
+export async function extractTextFromImage(
+  imageBuffer: Buffer,
+  preprocessing?: PreprocessingStep[],
+  tiling: TilingMode = "off",
+  hooks: ExtractTextHooks = {},
+): Promise<{ text: string; corrections: ImageCorrections; truncated: boolean }> {
+  hooks.onStage?.("preprocessing")
+  const processedImage = await processImageForOCR(imageBuffer, preprocessing)
+
+  hooks.onStage?.("inference")
+  let response: ProviderResponse
+  if (shouldTile(tiling, processedImage.width, processedImage.height)) {
+    const { tiles, responses } = await recognizeTiles(processedImage, (dataUrl) =>
+      getOcrProvider().recognize(dataUrl, { prompt: TILE_TEXT_PROMPT, signal: hooks.signal }),
+    )
+    response = {
+      text: mergeTileText(tiles, responses.map((tileResponse) => tileResponse.text)),
+      truncated: responses.some((tileResponse) => tileResponse.truncated),
+    }
+  } else {
+    const { dataUrl } = await encodeForUpload(processedImage.buffer)
+    response = await getOcrProvider().recognize(dataUrl, { prompt: TEXT_PROMPT, onToken: hooks.onToken, signal: hooks.signal })
+  }
+
+  const extractedText = response.text || NO_TEXT_FOUND
+  logger.debug("text extracted", { characters: extractedText.length, truncated: response.truncated, text: extractedText })
+
+  return { text: extractedText, corrections: processedImage.corrections, truncated: response.truncated }
+}
+
+// Run a single image through preprocessing and ask the model for word-level layout.
+// Bounding boxes are returned in the pixel space of the image that was passed in, as displayed
+// (i.e. after EXIF orientation but before any detected rotation or deskewing).
+export async function extractLayoutFromImage(
+  imageBuffer: Buffer,
+  page: number,
+  preprocessing?: PreprocessingStep[],
+  tiling: TilingMode = "off",
+  hooks: Pick<ExtractTextHooks, "onStage" | "signal"> = {},
+): Promise<{ layout: OcrLayoutPage; corrections: ImageCorrections; truncated: boolean }> {
+  hooks.onStage?.("preprocessing")
+  const processedImage = await processImageForOCR(imageBuffer, preprocessing)
+
+  hooks.onStage?.("inference")
+  logger.debug("requesting layout from the OCR provider")
+
+  const dimensions: LayoutDimensions = {
+    processedWidth: processedImage.width,
+    processedHeight: processedImage.height,
+    originalWidth: processedImage.originalWidth,
+    originalHeight: processedImage.originalHeight,
+    correctedWidth: processedImage.correctedWidth,
+    correctedHeight: processedImage.correctedHeight,
+    toOriginal: processedImage.toOriginal,
+  }
+
+  let layoutPage: OcrLayoutPage
+  let truncated: boolean
+  if (shouldTile(tiling, processedImage.width, processedImage.height)) {
+    const { tiles, responses } = await recognizeTiles(processedImage, (dataUrl, tile) =>
+      getOcrProvider().recognize(dataUrl, {
+        prompt: buildLayoutPrompt(tile.width, tile.height),
+        maxTokens: getServerConfig().provider.layoutMaxTokens,
+        signal: hooks.signal,
+      }),
+    )
+    // Words in the overlap are kept only by the tile that owns them, so the blocks can simply be concatenated
+    const tilePages = responses.map((response, index) => parseLayoutResponse(response.text, page, { ...dimensions, tile: tiles[index] }))
+    layoutPage = { ...tilePages[0], blocks: tilePages.flatMap((tilePage) => tilePage.blocks) }
+    truncated = responses.some((response) => response.truncated)
+  } else {
+    // The encoder may shrink the image, so coordinates are requested in the encoded image's pixels
+    const encoded = await encodeForUpload(processedImage.buffer)
+    const response = await getOcrProvider().recognize(encoded.dataUrl, {
+      prompt: buildLayoutPrompt(encoded.width, encoded.height),
+      maxTokens: getServerConfig().provider.layoutMaxTokens,
+      signal: hooks.signal,
+    })
+    layoutPage = parseLayoutResponse(response.text, page, {
+      ...dimensions,
+      processedWidth: encoded.width,
+      processedHeight: encoded.height,
+    })
+    truncated = response.truncated
+  }
+  logger.debug("layout extracted", { blocks: layoutPage.blocks.length, truncated })
+
+  return { layout: layoutPage, corrections: processedImage.corrections, truncated }
+}
+
+// Turn an upload into the images to recognize: the image itself, or one rendering per PDF page.
+// Throws INVALID_IMAGE if the upload is neither a decodable image nor a readable PDF, and TOO_MANY_PAGES
+// for a PDF over `maxPdfPages` (OCR_MAX_PDF_PAGES by default).
+export async function loadOcrDocument(buffer: Buffer, mimeType: string, dpi: number, maxPdfPages?: number): Promise<OcrDocument> {
+  const kind = isPdf(buffer, mimeType) ? "pdf" : "image"
+  inputBytes.observe(buffer.length, { kind })
+
+  if (kind === "image") {
+    try {
+      await sharp(buffer).metadata()
+    } catch (imageError) {
+      logger.warn("uploaded file is not a readable image", { mimeType, error: imageError })
+      throw new OcrError("INVALID_IMAGE", "The uploaded file is not a supported image", { mimeType })
+    }
+    return imageDocument(buffer)
+  }
+
+  const unreadablePdf = (pdfError: unknown) => {
+    if (pdfError instanceof OcrError) {
+      return pdfError
+    }
+    logger.warn("rasterizing the PDF failed", { error: pdfError })
+    return new OcrError("INVALID_IMAGE", "The uploaded PDF could not be read", { mimeType })
+  }
+
+  // Opening the PDF once up front rejects unreadable files and documents over the page limit before any
+  // page is rendered or recognized
+  let pageCount: number
+  try {
+    pageCount = await countPdfPages(buffer, maxPdfPages)
+  } catch (pdfError) {
+    throw unreadablePdf(pdfError)
+  }
+
+  return {
+    kind: "pdf",
+    pageCount,
+    async *pages() {
+      const rasterizedPages = rasterizePdf(buffer, dpi)
+      try {
+        while (true) {
+          const next = await timeStage("pdfRendering", () => rasterizedPages.next()).catch((pdfError) => {
+            throw unreadablePdf(pdfError)
+          })
+          if (next.done) {
+            return
+          }
+          yield next.value.buffer
+        }
+      } finally {
+        await rasterizedPages.return(undefined)
+      }
+    },
+  }
+}
+
+export interface RecognizeOptions {
+  format?: OcrOutputFormat
+  // Defaults to the "document" preset
+  preprocessing?: PreprocessingStep[]
+  // Defaults to "off"
+  tiling?: TilingMode
+  onProgress?: OcrProgressHandler
+  // Stage and token hooks for each page, e.g. for streaming progress to the client
+  onStage?: (stage: OcrStage, page: number, totalPages: number) => void
+  // Only used by the text format
+  onToken?: (delta: string, page: number) => void
+  // Stops recognition before the next page or region and aborts the upstream request in flight
+  signal?: AbortSignal
+}
+
+// Recognize every page of a document, reporting progress after each page
+export async function recognizeDocument(document: OcrDocument, options: RecognizeOptions = {}): Promise<OcrResult> {
+  const { format = "text", preprocessing, tiling, onProgress, onStage, onToken, signal } = options
+  const withLayout = format !== "text"
+  const pages: OcrPageResult[] = []
+  const layout: OcrLayoutPage[] = []
+  const totalPages = document.pageCount
+
+  let pagesRead = 0
+  for await (const pageImage of document.pages()) {
+    signal?.throwIfAborted()
+    const page = ++pagesRead
+    if (document.kind === "pdf") {
+      logger.info("processing PDF page", { page, totalPages })
+    }
+    const pageOnStage = onStage && ((stage: OcrStage) => onStage(stage, page, totalPages))
+
+    if (withLayout) {
+      const { layout: layoutPage, corrections, truncated } = await extractLayoutFromImage(pageImage, page, preprocessing, tiling, {
+        onStage: pageOnStage,
+        signal,
+      })
+      const text = layoutToText(layoutPage)
+      layout.push(layoutPage)
+      pages.push({ page, text, corrections, truncated })
+      outputCharacters.observe(text.length, { format: "layout" })
+    } else {
+      const { text, corrections, truncated } = await extractTextFromImage(pageImage, preprocessing, tiling, {
+        onStage: pageOnStage,
+        onToken: onToken && ((delta) => onToken(delta, page)),
+        signal,
+      })
+      pages.push({ page, text, corrections, truncated })
+      outputCharacters.observe(text.length, { format: "text" })
+    }
+    await onProgress?.(page, totalPages)
+  }
+
+  const truncated = pages.some((page) => page.truncated)
+  const result: OcrResult = document.kind === "image"
+    ? { text: pages[0].text, truncated, corrections: pages[0].corrections }
+    : { text: pages.map((page) => page.text).join("\n\n"), truncated, pages }
+
+  if (withLayout) {
+    result.layout = layout
+  }
+
+  return result
+}
+
+// Recognize only the given regions of an image, one after another. Stage, token and progress hooks
+// count regions the way recognizeDocument counts pages. The combined text joins the regions in order;
+// with a layout format, the boxes of all regions are merged into one page of the whole image.
+export async function recognizeRegions(
+  imageBuffer: Buffer,
+  regions: CropRegion[],
+  options: RecognizeOptions = {},
+): Promise<OcrResult> {
+  const { format = "text", onProgress, onStage, onToken, signal } = options
+  const crops = await cropRegions(imageBuffer, regions)
+  const results: OcrRegionResult[] = []
+  const blocks: OcrLayoutPage["blocks"] = []
+  const totalRegions = regions.length
+
+  for (let index = 0; index < totalRegions; index++) {
+    signal?.throwIfAborted()
+    const region = index + 1
+    const bbox = regions[index]
+    logger.info("processing region", { region, totalRegions, bbox })
+    const regionResult = await recognizeDocument(
+      imageDocument(crops[index]),
+      {
+        ...options,
+        onProgress: undefined,
+        onStage: onStage && ((stage) => onStage(stage, region, totalRegions)),
+        onToken: onToken && ((delta) => onToken(delta, region)),
+      },
+    )
+    results.push({
+      region,
+      bbox,
+      text: regionResult.text,
+      corrections: regionResult.corrections ?? NO_CORRECTIONS,
+      truncated: regionResult.truncated,
+    })
+    if (regionResult.layout) {
+      blocks.push(...offsetLayoutBlocks(regionResult.layout[0], bbox))
+    }
+    await onProgress?.(region, totalRegions)
+  }
+
+  const result: OcrResult = {
+    text: results.map((regionResult) => regionResult.text).join("\n\n"),
+    truncated: results.some((regionResult) => regionResult.truncated),
+    regions: results,
+  }
+
+  if (format !== "text") {
+    const { width, height } = await displayedSize(imageBuffer)
+    result.layout = [{ page: 1, width, height, blocks }]
+  }
+
+  return result
+}
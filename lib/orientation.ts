@@ -0,0 +1,319 @@
+import sharp from "sharp"
+import type { BoundingBox } from "@/lib/layout"
+import { logger } from "@/lib/logger"
+
+export type QuarterTurn = 0 | 90 | 180 | 270
+
+// Corrections applied to an upload before recognition. Angles are clockwise, in degrees.
+export interface ImageCorrections {
+  // EXIF orientation tag (2-8) that was applied, or null when the upload had none
+  exifOrientation: number | null
+  // Rotation applied to make sideways or upside-down text upright
+  rotation: QuarterTurn
+  // Small rotation applied to straighten slightly tilted text lines
+  deskewAngle: number
+}
+
+export interface OrientationOptions {
+  detectRotation: boolean
+  // Largest tilt to correct; 0 disables deskewing
+  maxSkewAngle: number
+}
+
+export interface OrientedImage {
+  buffer: Buffer
+  width: number
+  height: number
+  // Upload dimensions after EXIF orientation, which is how browsers and viewers display it.
+  // Bounding boxes are reported in this space.
+  originalWidth: number
+  originalHeight: number
+  corrections: ImageCorrections
+  // Map a box in the corrected image back to the upload
+  toOriginal: (box: BoundingBox) => BoundingBox
+}
+
+export const NO_CORRECTIONS: ImageCorrections = { exifOrientation: null, rotation: 0, deskewAngle: 0 }
+
+// Images are analyzed at this size; enough to resolve text lines without scanning every pixel
+const ANALYSIS_SIZE = 1200
+// Too little ink to say anything about text direction
+const MIN_INK_POINTS = 500
+// Tilts smaller than this are not worth resampling the image for
+const MIN_DESKEW_ANGLE = 0.3
+// How much more contrast a tilted projection needs than the level one to count as skew
+const MIN_SKEW_GAIN = 1.1
+// How much more ascender than descender ink (or the reverse) is needed to call text upside down
+const UPSIDE_DOWN_RATIO = 1.15
+
+interface InkPoints {
+  xs: Float32Array
+  ys: Float32Array
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+// Otsu's method: the gray level that best separates ink from background
+function otsuThreshold(pixels: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0)
+  for (const value of pixels) histogram[value]++
+
+  let sum = 0
+  for (let level = 0; level < 256; level++) sum += level * histogram[level]
+
+  let backgroundWeight = 0
+  let backgroundSum = 0
+  let bestVariance = -1
+  let threshold = 128
+  for (let level = 0; level < 256; level++) {
+    backgroundWeight += histogram[level]
+    if (backgroundWeight === 0) continue
+    const foregroundWeight = pixels.length - backgroundWeight
+    if (foregroundWeight === 0) break
+    backgroundSum += level * histogram[level]
+    const backgroundMean = backgroundSum / backgroundWeight
+    const foregroundMean = (sum - backgroundSum) / foregroundWeight
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2
+    if (variance > bestVariance) {
+      bestVariance = variance
+      threshold = level
+    }
+  }
+  return threshold
+}
+
+// Coordinates of the ink pixels of a downscaled copy, treating the minority side of the threshold as ink
+// so light-on-dark text works too
+async function findInk(image: Buffer): Promise<InkPoints> {
+  const { data, info } = await sharp(image)
+    .grayscale()
+    .resize({ width: ANALYSIS_SIZE, height: ANALYSIS_SIZE, fit: "inside", withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const pixels = new Uint8Array(data.buffer, data.byteOffset, info.width * info.height)
+  const threshold = otsuThreshold(pixels)
+  let dark = 0
+  for (const value of pixels) if (value <= threshold) dark++
+  const inkIsDark = dark <= pixels.length / 2
+  const inkCount = inkIsDark ? dark : pixels.length - dark
+
+  const xs = new Float32Array(inkCount)
+  const ys = new Float32Array(inkCount)
+  let index = 0
+  for (let y = 0; y < info.height; y++) {
+    for (let x = 0; x < info.width; x++) {
+      if (pixels[y * info.width + x] <= threshold === inkIsDark) {
+        xs[index] = x
+        ys[index] = y
+        index++
+      }
+    }
+  }
+  return { xs, ys }
+}
+
+// Projections of points within the analysis image fall within +/- its diagonal
+const PROFILE_OFFSET = Math.ceil(ANALYSIS_SIZE * Math.SQRT2) + 1
+
+// Histogram of ink along the normal of lines running at `angle` degrees (clockwise from horizontal)
+function projectionProfile({ xs, ys }: InkPoints, angle: number): Int32Array {
+  const sin = Math.sin(toRadians(angle))
+  const cos = Math.cos(toRadians(angle))
+  const profile = new Int32Array(PROFILE_OFFSET * 2 + 1)
+  for (let i = 0; i < xs.length; i++) {
+    profile[Math.round(ys[i] * cos - xs[i] * sin) + PROFILE_OFFSET]++
+  }
+  return profile
+}
+
+// Text lines give a spiky profile (dense lines, empty gaps) only when projected along their direction.
+// The score is relative to the same ink spread evenly over the profile, so that the short and long
+// sides of an image can be compared.
+function profileSharpness(points: InkPoints, angle: number): number {
+  const profile = projectionProfile(points, angle)
+  const first = profile.findIndex((count) => count > 0)
+  const last = profile.findLastIndex((count) => count > 0)
+  const sumOfSquares = profile.reduce((total, count) => total + count * count, 0)
+  return (sumOfSquares * (last - first + 1)) / (points.xs.length * points.xs.length)
+}
+
+// Text lines start and end abruptly, so the profile jumps at every line edge when projected along
+// them. Evenly spread texture such as photo noise gives a smooth profile at any angle.
+function profileContrast(points: InkPoints, angle: number): number {
+  const profile = projectionProfile(points, angle)
+  let total = 0
+  for (let index = 1; index < profile.length; index++) {
+    const step = profile[index] - profile[index - 1]
+    total += step * step
+  }
+  return total
+}
+
+// The line angle within `range` of `center` whose projection has the most contrast, searched coarsely
+// and then refined. Falls back to `center` unless another angle is clearly better.
+function findLineAngle(points: InkPoints, center: number, range: number): number {
+  const level = profileContrast(points, center)
+  let best = { angle: center, contrast: level }
+  const search = (from: number, to: number, step: number) => {
+    for (let angle = Math.max(from, center - range); angle <= Math.min(to, center + range) + 1e-9; angle += step) {
+      const contrast = profileContrast(points, angle)
+      if (contrast > best.contrast) best = { angle, contrast }
+    }
+  }
+  if (range > 0) {
+    search(center - range, center + range, 0.5)
+    search(best.angle - 0.5, best.angle + 0.5, 0.1)
+  }
+  return best.contrast >= level * MIN_SKEW_GAIN ? best.angle : center
+}
+
+// Latin script has more ascenders and capitals above the x-height band than descenders below it.
+// Returns ascender ink over descender ink for lines projected at `angle`; below 1 means upside down.
+function ascenderRatio(points: InkPoints, angle: number): number {
+  const profile = projectionProfile(points, angle)
+  const cutoff = profile.reduce((max, count) => Math.max(max, count), 0) * 0.02
+  let above = 0
+  let below = 0
+
+  let start = 0
+  while (start < profile.length) {
+    if (profile[start] <= cutoff) {
+      start++
+      continue
+    }
+    let end = start
+    while (end + 1 < profile.length && profile[end + 1] > cutoff) end++
+
+    if (end - start >= 3) {
+      const line = Array.from(profile.subarray(start, end + 1))
+      const core = Math.max(...line) * 0.5
+      const coreTop = line.findIndex((count) => count >= core)
+      const coreBottom = line.length - 1 - [...line].reverse().findIndex((count) => count >= core)
+      above += line.slice(0, coreTop).reduce((total, count) => total + count, 0)
+      below += line.slice(coreBottom + 1).reduce((total, count) => total + count, 0)
+    }
+    start = end + 1
+  }
+  return (above + 1) / (below + 1)
+}
+
+// Work out the clockwise rotation that makes the text upright and level
+function detectCorrection(points: InkPoints, options: OrientationOptions): { rotation: QuarterTurn; deskewAngle: number } {
+  const range = options.maxSkewAngle
+  let lineAngle = findLineAngle(points, 0, range)
+
+  if (options.detectRotation) {
+    const vertical = findLineAngle(points, 90, range)
+    // Require a clear margin, since blank or sparse pages score about the same either way
+    if (profileSharpness(points, vertical) > profileSharpness(points, lineAngle) * 1.2) {
+      lineAngle = vertical
+    }
+  }
+
+  // Rotating by -lineAngle levels the lines; the text may still be upside down after that
+  let correction = -lineAngle
+  if (options.detectRotation) {
+    const ratio = ascenderRatio(points, lineAngle)
+    // Sideways text must go one way or the other, so the weaker signal decides; level text is only
+    // flipped on a clear signal
+    const upsideDown = lineAngle > 45 ? ratio < 1 : ratio < 1 / UPSIDE_DOWN_RATIO
+    if (upsideDown) {
+      correction += 180
+    }
+  }
+
+  const quarterTurns = Math.round(correction / 90)
+  const rotation = ((((quarterTurns * 90) % 360) + 360) % 360) as QuarterTurn
+  let deskewAngle = Math.round((correction - quarterTurns * 90) * 10) / 10
+  if (options.maxSkewAngle === 0 || Math.abs(deskewAngle) < MIN_DESKEW_ANGLE) {
+    deskewAngle = 0
+  }
+  return { rotation, deskewAngle }
+}
+
+// Map a box through a rotation of `angle` degrees about the image center, from the rotated image
+// (rotatedWidth x rotatedHeight) back to the source (width x height)
+function unrotateBox(
+  box: BoundingBox,
+  angle: number,
+  width: number,
+  height: number,
+  rotatedWidth: number,
+  rotatedHeight: number,
+): BoundingBox {
+  const sin = Math.sin(toRadians(angle))
+  const cos = Math.cos(toRadians(angle))
+  const corners = [
+    [box.x, box.y],
+    [box.x + box.width, box.y],
+    [box.x, box.y + box.height],
+    [box.x + box.width, box.y + box.height],
+  ].map(([x, y]) => {
+    const u = x - rotatedWidth / 2
+    const v = y - rotatedHeight / 2
+    return [u * cos + v * sin + width / 2, -u * sin + v * cos + height / 2]
+  })
+  const x0 = Math.min(...corners.map(([x]) => x))
+  const y0 = Math.min(...corners.map(([, y]) => y))
+  const x1 = Math.max(...corners.map(([x]) => x))
+  const y1 = Math.max(...corners.map(([, y]) => y))
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+}
+
+// Apply EXIF orientation, then optionally detect and undo quarter-turn rotation and small tilts.
+// The result is lossless PNG unless nothing had to change, in which case the input is returned as is.
+export async function correctOrientation(imageBuffer: Buffer, options: OrientationOptions): Promise<OrientedImage> {
+  const metadata = await sharp(imageBuffer).metadata()
+  const exifOrientation = metadata.orientation && metadata.orientation > 1 ? metadata.orientation : null
+  const originalWidth = metadata.autoOrient?.width ?? metadata.width ?? 0
+  const originalHeight = metadata.autoOrient?.height ?? metadata.height ?? 0
+
+  let upright = imageBuffer
+  if (exifOrientation !== null) {
+    upright = await sharp(imageBuffer).autoOrient().png({ compressionLevel: 0 }).toBuffer()
+    logger.debug("applied EXIF orientation", { exifOrientation })
+  }
+
+  const unchanged: OrientedImage = {
+    buffer: upright,
+    width: originalWidth,
+    height: originalHeight,
+    originalWidth,
+    originalHeight,
+    corrections: { ...NO_CORRECTIONS, exifOrientation },
+    toOriginal: (box) => box,
+  }
+
+  if (!options.detectRotation && options.maxSkewAngle === 0) {
+    return unchanged
+  }
+
+  const points = await findInk(upright)
+  if (points.xs.length < MIN_INK_POINTS) {
+    logger.debug("too little ink to detect text orientation; skipping rotation and deskew")
+    return unchanged
+  }
+
+  const { rotation, deskewAngle } = detectCorrection(points, options)
+  if (rotation === 0 && deskewAngle === 0) {
+    return unchanged
+  }
+
+  const angle = rotation + deskewAngle
+  const { data, info } = await sharp(upright)
+    .rotate(angle, { background: "#ffffff" })
+    .png({ compressionLevel: 0 })
+    .toBuffer({ resolveWithObject: true })
+  logger.debug("corrected image orientation", { rotation, deskewAngle })
+
+  return {
+    buffer: data,
+    width: info.width,
+    height: info.height,
+    originalWidth,
+    originalHeight,
+    corrections: { exifOrientation, rotation, deskewAngle },
+    toOriginal: (box) => unrotateBox(box, angle, originalWidth, originalHeight, info.width, info.height),
+  }
+}
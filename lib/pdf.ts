@@ -0,0 +1,116 @@
+import path from "path"
+import { createCanvas } from "@napi-rs/canvas"
+import { getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+
+export interface RasterizedPage {
+  pageNumber: number
+  width: number
+  height: number
+  buffer: Buffer
+}
+
+// PDF user space is defined at 72 units per inch
+const PDF_POINTS_PER_INCH = 72
+
+export const DEFAULT_PDF_DPI = 200
+export const MIN_PDF_DPI = 72
+export const MAX_PDF_DPI = 400
+
+export function isPdf(buffer: Buffer, mimeType?: string): boolean {
+  if (mimeType === "application/pdf") {
+    return true
+  }
+  // Fall back to the "%PDF-" magic bytes for uploads without a reliable content type
+  return buffer.subarray(0, 5).toString("latin1") === "%PDF-"
+}
+
+async function openPdf(pdfBuffer: Buffer) {
+  // pdfjs-dist is ESM-only, so load it lazily from the Node-compatible legacy build
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs")
+  return getDocument({
+    data: new Uint8Array(pdfBuffer),
+    standardFontDataUrl: path.join(process.cwd(), "node_modules/pdfjs-dist/standard_fonts/"),
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise
+}
+
+// Count the pages of a PDF, rejecting documents over `maxPages` with TOO_MANY_PAGES: every page costs a
+// rendering and an upstream call, and a synchronous request has to finish them all within the route's
+// time limit. Throws pdfjs's own error for a file that is not a readable PDF.
+export async function countPdfPages(pdfBuffer: Buffer, maxPages: number = getServerConfig().maxPdfPages): Promise<number> {
+  const document = await openPdf(pdfBuffer)
+  try {
+    if (document.numPages > maxPages) {
+      throw new OcrError("TOO_MANY_PAGES", `PDFs can have at most ${maxPages} pages`, {
+        pages: document.numPages,
+        limit: maxPages,
+      })
+    }
+    return document.numPages
+  } finally {
+    await document.destroy()
+  }
+}
+
+// Rasterize the pages of a PDF into PNG buffers at the requested DPI, one at a time as they are
+// consumed, so only one rendering is held in memory. A page that would exceed `maxPagePixels` at that DPI
+// (e.g. a poster) is rendered at the highest resolution that fits instead. The PDF is released when the
+// iteration ends, including when the consumer stops early or throws.
+export async function* rasterizePdf(
+  pdfBuffer: Buffer,
+  dpi: number = DEFAULT_PDF_DPI,
+  maxPagePixels: number = getServerConfig().maxPdfPagePixels,
+): AsyncGenerator<RasterizedPage> {
+  const document = await openPdf(pdfBuffer)
+
+  logger.info("PDF loaded", { pages: document.numPages, dpi })
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber)
+      let scale = dpi / PDF_POINTS_PER_INCH
+      const pixelsAt = (pageScale: number) => {
+        const { width, height } = page.getViewport({ scale: pageScale })
+        return Math.ceil(width) * Math.ceil(height)
+      }
+      const requestedPixels = pixelsAt(scale)
+      if (requestedPixels > maxPagePixels) {
+        scale *= Math.sqrt(maxPagePixels / requestedPixels)
+        // Each side is rounded up to whole pixels, which can still tip the page over the limit
+        while (pixelsAt(scale) > maxPagePixels) {
+          scale *= 0.99
+        }
+        logger.info("rendering an oversized PDF page at a lower resolution", {
+          page: pageNumber,
+          requestedPixels,
+          dpi: Math.floor(scale * PDF_POINTS_PER_INCH),
+        })
+      }
+      const viewport = page.getViewport({ scale })
+      const width = Math.ceil(viewport.width)
+      const height = Math.ceil(viewport.height)
+
+      const canvas = createCanvas(width, height)
+      const context = canvas.getContext("2d")
+
+      // PDF pages are transparent by default; paint a white background so text keeps its contrast
+      context.fillStyle = "#ffffff"
+      context.fillRect(0, 0, width, height)
+
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise
+
+      const buffer = canvas.toBuffer("image/png")
+      page.cleanup()
+      yield { pageNumber, width, height, buffer }
+    }
+  } finally {
+    await document.destroy()
+  }
+}
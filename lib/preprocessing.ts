@@ -0,0 +1,182 @@
+import sharp from "sharp"
+import { z } from "zod"
+import { getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import type { OrientationOptions } from "@/lib/orientation"
+
+// Each step maps onto a sharp operation. Note that sharp runs its operations in a fixed internal order
+// (e.g. resizing before sharpening), so the order of steps in a pipeline does not change the result.
+// "orient" and "deskew" always run first, in a separate pass, because they need to look at the image.
+const preprocessingStepSchema = z.discriminatedUnion("type", [
+  // Detect sideways or upside-down text and turn it upright
+  z.object({ type: z.literal("orient") }).strict(),
+  // Straighten text lines tilted by up to `maxAngle` degrees
+  z.object({ type: z.literal("deskew"), maxAngle: z.number().min(0.5).max(20) }).strict(),
+  // Drop color; helps faint text on white paper, hurts colored text on colored backgrounds
+  z.object({ type: z.literal("grayscale") }).strict(),
+  // Stretch contrast so the darkest pixel is black and the lightest is white
+  z.object({ type: z.literal("normalize") }).strict(),
+  // Enlarge images whose longest side is below `minDimension` pixels
+  z.object({ type: z.literal("upscale"), minDimension: z.number().int().min(100).max(4000) }).strict(),
+  z
+    .object({
+      type: z.literal("sharpen"),
+      sigma: z.number().min(0.01).max(10),
+      // Sharpening applied to flat and jagged areas respectively
+      flat: z.number().min(0).max(10).optional(),
+      jagged: z.number().min(0).max(10).optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal("gamma"), value: z.number().min(1).max(3) }).strict(),
+  // Remove speckle noise, e.g. from phone photos; size is the odd width of the filter window
+  z
+    .object({
+      type: z.literal("median"),
+      size: z.number().int().min(3).max(9).refine((size) => size % 2 === 1, "Must be an odd number"),
+    })
+    .strict(),
+  // Turn every pixel black or white; only useful for clean, evenly lit scans
+  z.object({ type: z.literal("threshold"), value: z.number().int().min(0).max(255) }).strict(),
+])
+
+const MAX_PREPROCESSING_STEPS = 20
+
+const preprocessingPipelineSchema = z.array(preprocessingStepSchema).max(MAX_PREPROCESSING_STEPS)
+
+export type PreprocessingStep = z.infer<typeof preprocessingStepSchema>
+
+export type PreprocessingPreset = "document" | "photo" | "screenshot" | "receipt" | "none"
+
+const PREPROCESSING_PRESET_NAMES: PreprocessingPreset[] = ["document", "photo", "screenshot", "receipt", "none"]
+
+// The built-in pipelines. Small images are enlarged to `upscaleMinDimension` pixels on their longest side
+// (OCR_UPSCALE_MIN_DIMENSION, default 1000); receipts to half as much again.
+export function preprocessingPresets(
+  upscaleMinDimension: number = getServerConfig().upscaleMinDimension,
+): Record<PreprocessingPreset, PreprocessingStep[]> {
+  return {
+    // Black-on-white paper documents and scans
+    document: [
+      { type: "orient" },
+      { type: "deskew", maxAngle: 10 },
+      { type: "grayscale" },
+      { type: "normalize" },
+      { type: "upscale", minDimension: upscaleMinDimension },
+      { type: "sharpen", sigma: 1 },
+      { type: "gamma", value: 1.2 },
+    ],
+    // Camera photos of pages: keep color, remove sensor noise
+    photo: [
+      { type: "orient" },
+      { type: "deskew", maxAngle: 15 },
+      { type: "median", size: 3 },
+      { type: "normalize" },
+      { type: "upscale", minDimension: upscaleMinDimension },
+      { type: "sharpen", sigma: 1.5 },
+    ],
+    // Rendered text is already crisp; only make small captures large enough to read
+    screenshot: [{ type: "upscale", minDimension: upscaleMinDimension }],
+    // Narrow thermal or colored receipts: keep color, enlarge more and sharpen gently
+    receipt: [
+      { type: "orient" },
+      { type: "deskew", maxAngle: 10 },
+      { type: "normalize" },
+      { type: "upscale", minDimension: Math.min(4000, Math.round(upscaleMinDimension * 1.5)) },
+      { type: "sharpen", sigma: 0.8 },
+    ],
+    none: [],
+  }
+}
+
+export const DEFAULT_PREPROCESSING_PRESET: PreprocessingPreset = "document"
+
+function isPreset(value: string): value is PreprocessingPreset {
+  return PREPROCESSING_PRESET_NAMES.includes(value as PreprocessingPreset)
+}
+
+// Parse the optional "preprocessing" form field: a preset name, or a JSON array of steps.
+// Throws INVALID_REQUEST with the validation issues when the value is not usable.
+export function parsePreprocessing(value: FormDataEntryValue | null): PreprocessingStep[] {
+  if (value === null || value === "") {
+    return preprocessingPresets()[DEFAULT_PREPROCESSING_PRESET]
+  }
+  if (typeof value !== "string") {
+    throw new OcrError("INVALID_REQUEST", "preprocessing must be a preset name or a JSON array of steps")
+  }
+  if (isPreset(value)) {
+    return preprocessingPresets()[value]
+  }
+
+  let steps: unknown
+  try {
+    steps = JSON.parse(value)
+  } catch {
+    const presets = PREPROCESSING_PRESET_NAMES.join(", ")
+    throw new OcrError("INVALID_REQUEST", `Unknown preprocessing preset "${value}". Available presets: ${presets}`)
+  }
+
+  const result = preprocessingPipelineSchema.safeParse(steps)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${["steps", ...issue.path].join(".")}: ${issue.message}`)
+    throw new OcrError("INVALID_REQUEST", "The preprocessing steps are not valid", { issues })
+  }
+  return result.data
+}
+
+// Orientation settings for correctOrientation(), taken from the "orient" and "deskew" steps
+export function orientationOptions(steps: PreprocessingStep[]): OrientationOptions {
+  let maxSkewAngle = 0
+  for (const step of steps) {
+    if (step.type === "deskew") maxSkewAngle = step.maxAngle
+  }
+  return { detectRotation: steps.some((step) => step.type === "orient"), maxSkewAngle }
+}
+
+// Add the steps to a sharp pipeline. `width` and `height` are the dimensions of the input image.
+// "orient" and "deskew" are skipped; see orientationOptions().
+export function applyPreprocessing(image: sharp.Sharp, steps: PreprocessingStep[], width: number, height: number): sharp.Sharp {
+  for (const step of steps) {
+    switch (step.type) {
+      case "orient":
+      case "deskew":
+        break
+      case "grayscale":
+        image = image.grayscale()
+        break
+      case "normalize":
+        image = image.normalize()
+        break
+      case "upscale": {
+        const maxDimension = Math.max(width, height)
+        if (maxDimension > 0 && maxDimension < step.minDimension) {
+          const scaleFactor = step.minDimension / maxDimension
+          image = image.resize({
+            width: Math.round(width * scaleFactor),
+            height: Math.round(height * scaleFactor),
+            kernel: sharp.kernel.lanczos3,
+          })
+          logger.debug("upscaled image", { scaleFactor: Number(scaleFactor.toFixed(2)) })
+        }
+        break
+      }
+      case "sharpen":
+        image = image.sharpen({ sigma: step.sigma, m1: step.flat, m2: step.jagged })
+        break
+      case "gamma":
+        image = image.gamma(step.value)
+        break
+      case "median":
+        image = image.median(step.size)
+        break
+      case "threshold":
+        image = image.threshold(step.value)
+        break
+    }
+  }
+  return image
+}
+
+export function describePreprocessing(steps: PreprocessingStep[]): string {
+  return steps.length > 0 ? steps.map((step) => step.type).join(", ") : "none"
+}
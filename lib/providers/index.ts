@@ -0,0 +1,33 @@
+import { getServerConfig } from "@/lib/config"
+import { OcrError } from "@/lib/errors"
+import { createGravixProvider, createOpenAICompatibleProvider } from "@/lib/providers/openai-compatible"
+import type { OcrProvider, OcrProviderFactory } from "@/lib/providers/types"
+
+export type { OcrProvider, OcrProviderFactory, ProviderConfig, ProviderMessage, ProviderRecognizeOptions } from "@/lib/providers/types"
+
+const providerFactories = new Map<string, OcrProviderFactory>([
+  ["gravix", createGravixProvider],
+  ["openai-compatible", createOpenAICompatibleProvider],
+])
+
+// Make a provider selectable through OCR_PROVIDER
+export function registerOcrProvider(name: string, factory: OcrProviderFactory) {
+  providerFactories.set(name, factory)
+}
+
+export function listOcrProviders(): string[] {
+  return Array.from(providerFactories.keys())
+}
+
+// Build the provider selected by the current configuration
+export function getOcrProvider(): OcrProvider {
+  const config = getServerConfig().provider
+  const factory = providerFactories.get(config.provider)
+  if (!factory) {
+    throw new OcrError(
+      "PROVIDER_NOT_CONFIGURED",
+      `Unknown OCR provider "${config.provider}". Registered providers: ${listOcrProviders().join(", ")}`,
+    )
+  }
+  return factory(config)
+}
@@ -0,0 +1,348 @@
+import OpenAI from "openai"
+import { CircuitOpenError, getCircuitBreaker } from "@/lib/circuit-breaker"
+import { OcrError } from "@/lib/errors"
+import { logger, timeStage } from "@/lib/logger"
+import { upstreamDuration, upstreamErrors } from "@/lib/metrics"
+import type { OcrProvider, ProviderConfig, ProviderRecognizeOptions, ProviderResponse } from "@/lib/providers/types"
+import { parseRetryAfter, withRetry } from "@/lib/retry"
+
+export const GRAVIX_BASE_URL = "https://api.gravixlayer.com/v1/inference"
+
+// Readiness probes should answer quickly even when requests may take a minute
+const PROBE_TIMEOUT_MS = 10_000
+
+const CONTINUE_PROMPT =
+  "Your response was cut off. Continue exactly where it stopped, without repeating anything you already wrote."
+
+// One completion: its text and why the model stopped ("length" when it ran out of tokens)
+interface CompletionPart {
+  content: string
+  finishReason: string | null
+}
+
+// Function to create OpenAI client with proper error handling
+export function createOpenAIClient({ apiKey, baseURL, timeout }: { apiKey?: string; baseURL?: string; timeout?: number }) {
+  if (!apiKey) {
+    throw new OcrError("MISSING_API_KEY", "An API key is required to create the OpenAI client")
+  }
+
+  return new OpenAI({
+    apiKey: apiKey,
+    baseURL: baseURL,
+    timeout: timeout,
+    // Retries are handled by callUpstream so they go through the circuit breaker
+    maxRetries: 0,
+  })
+}
+
+interface EndpointOptions {
+  name: string
+  // Human-readable name used in logs and error messages, e.g. "Gravix Layer"
+  label: string
+  baseURL?: string
+  apiKey?: string
+  // Reported by configurationError() when no API key is available; omit for endpoints that need none
+  missingApiKeyMessage?: string
+}
+
+// Convert errors thrown by the OpenAI SDK into coded errors the routes report to clients
+function toUpstreamError(apiCallError: unknown, label: string): OcrError {
+  if (apiCallError instanceof OpenAI.APIConnectionTimeoutError) {
+    logger.error("upstream API timed out", { provider: label })
+    return new OcrError("UPSTREAM_TIMEOUT", `${label} API did not respond in time`)
+  }
+  if (apiCallError instanceof OpenAI.APIConnectionError) {
+    logger.error("could not reach the upstream API", { provider: label, error: apiCallError })
+    return new OcrError("UPSTREAM_UNAVAILABLE", `Could not reach the ${label} API: ${apiCallError.message}`)
+  }
+  if (apiCallError instanceof OpenAI.APIError) {
+    logger.error("upstream API error", {
+      provider: label,
+      status: apiCallError.status,
+      code: apiCallError.code,
+      type: apiCallError.type,
+      error: apiCallError.message,
+    })
+    const status = apiCallError.status
+    const message = `${label} API error (${status || "unknown"}): ${apiCallError.message}`
+    const details = { upstreamStatus: status ?? null }
+
+    if (status === 401 || status === 403) {
+      return new OcrError("INVALID_API_KEY", message, details)
+    }
+    if (status === 429) {
+      const retryAfterMs = parseRetryAfter(apiCallError.headers?.get("retry-after"))
+      return new OcrError("UPSTREAM_RATE_LIMITED", message, {
+        ...details,
+        ...(retryAfterMs !== null && { retryAfterSeconds: Math.ceil(retryAfterMs / 1000) }),
+      })
+    }
+    if (status !== undefined && (status === 408 || status >= 500)) {
+      return new OcrError("UPSTREAM_UNAVAILABLE", message, details)
+    }
+    return new OcrError("UPSTREAM_ERROR", message, details)
+  } else if (apiCallError instanceof Error) {
+    // Catch network errors or other generic errors from the SDK
+    logger.error("network or SDK error during the upstream call", { provider: label, error: apiCallError })
+    return new OcrError("UPSTREAM_ERROR", `Network or SDK error during API call: ${apiCallError.message}`)
+  }
+  return new OcrError("UPSTREAM_ERROR", "An unexpected error occurred during the API call.")
+}
+
+// Label a failed completion call for the upstream error metric: the HTTP status, or what went wrong without one
+function upstreamErrorCode(error: unknown): string {
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return "timeout"
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return "connection"
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return String(error.status)
+  }
+  return "other"
+}
+
+// Connection failures, timeouts, 408, 409, 429 and 5xx responses are worth retrying; other 4xx responses are not
+function isTransientError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) {
+    return true
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500
+  }
+  return false
+}
+
+function createEndpointProvider(config: ProviderConfig, endpoint: EndpointOptions): OcrProvider {
+  const { name, label, baseURL, missingApiKeyMessage } = endpoint
+  // Endpoints without authentication still need a non-empty key for the SDK
+  const apiKey = endpoint.apiKey || (missingApiKeyMessage ? undefined : "not-needed")
+
+  const buildParams = (images: string[], { prompt, maxTokens, followUp = [] }: ProviderRecognizeOptions) => {
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: prompt,
+          },
+          ...images.map((url) => ({
+            type: "image_url" as const,
+            image_url: {
+              url,
+            },
+          })),
+        ],
+      },
+      ...followUp,
+    ]
+
+    return {
+      messages,
+      model: config.model,
+      temperature: config.temperature,
+      max_tokens: maxTokens ?? config.maxTokens,
+      top_p: 1,
+      seed: 0,
+    }
+  }
+
+  // Request the completion in one piece
+  const complete = async (images: string[], options: ProviderRecognizeOptions) => {
+    // Create OpenAI client at runtime
+    const openai = createOpenAIClient({ apiKey, baseURL, timeout: config.timeoutMs })
+    const completion = await openai.chat.completions.create(
+      { ...buildParams(images, options), stream: false },
+      { signal: options.signal },
+    )
+    logger.debug("received upstream response", { provider: label })
+    return completion
+  }
+
+  // Request the completion as a stream, forwarding each text delta as it arrives
+  const completeStreaming = async (
+    images: string[],
+    options: ProviderRecognizeOptions,
+    onToken: (delta: string) => void,
+  ): Promise<CompletionPart> => {
+    let text = ""
+    let finishReason: string | null = null
+
+    const openai = createOpenAIClient({ apiKey, baseURL, timeout: config.timeoutMs })
+    const stream = await openai.chat.completions.create(
+      { ...buildParams(images, options), stream: true },
+      { signal: options.signal },
+    )
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content
+      if (delta) {
+        text += delta
+        onToken(delta)
+      }
+      finishReason = chunk.choices[0]?.finish_reason ?? finishReason
+    }
+    logger.debug("finished streaming upstream response", { provider: label, characters: text.length })
+
+    return { content: text, finishReason }
+  }
+
+  const breaker = getCircuitBreaker(name, { ...config.circuitBreaker, isFailure: isTransientError })
+
+  // Time one completion call for the request's "upstream" stage and the upstream metrics. Calls the circuit
+  // breaker rejects never reach this, so they are not counted as upstream errors.
+  const instrumented = async <T>(call: () => Promise<T>): Promise<T> => {
+    const startedAt = performance.now()
+    let outcome = "success"
+    try {
+      return await timeStage("upstream", call)
+    } catch (error) {
+      outcome = "error"
+      upstreamErrors.inc({ provider: name, code: upstreamErrorCode(error) })
+      throw error
+    } finally {
+      upstreamDuration.observe((performance.now() - startedAt) / 1000, { provider: name, outcome })
+    }
+  }
+
+  // Run one upstream call through the circuit breaker, retrying transient failures with backoff
+  const callUpstream = async <T>(call: () => Promise<T>, canRetry: () => boolean = () => true): Promise<T> => {
+    try {
+      return await withRetry(() => breaker.execute(() => instrumented(call)), {
+        ...config.retry,
+        shouldRetry: (error) => canRetry() && isTransientError(error),
+        retryAfterMs: (error) => (error instanceof OpenAI.APIError ? parseRetryAfter(error.headers?.get("retry-after")) : null),
+        onRetry: (error, attempt, delayMs) => {
+          const reason = error instanceof OpenAI.APIError ? `${error.status ?? "network"}: ${error.message}` : String(error)
+          logger.warn("upstream call failed, retrying", {
+            provider: label,
+            reason,
+            attempt,
+            maxRetries: config.retry.maxRetries,
+            delayMs,
+          })
+        },
+      })
+    } catch (apiCallError) {
+      if (apiCallError instanceof CircuitOpenError) {
+        logger.error("circuit breaker is open; not calling the upstream API", { breaker: name, provider: label })
+      }
+      // A cancelled call is not an upstream failure; the caller already knows why it stopped
+      if (apiCallError instanceof OcrError || apiCallError instanceof OpenAI.APIUserAbortError) {
+        throw apiCallError
+      }
+      throw toUpstreamError(apiCallError, label)
+    }
+  }
+
+  // Request the completion in one piece through callUpstream, checking the response shape
+  const completeChecked = async (images: string[], options: ProviderRecognizeOptions): Promise<CompletionPart> => {
+    const completion = await callUpstream(() => complete(images, options))
+
+    // Ensure completion object and its properties are valid
+    if (!completion || !completion.choices || completion.choices.length === 0 || !completion.choices[0].message) {
+      logger.error("unexpected completion structure", { provider: label, response: completion })
+      throw new OcrError("UPSTREAM_ERROR", `Unexpected response structure from ${label} API`)
+    }
+
+    return { content: completion.choices[0]?.message?.content || "", finishReason: completion.choices[0].finish_reason }
+  }
+
+  return {
+    name,
+    model: config.model,
+    configurationError() {
+      if (!baseURL) {
+        return new OcrError("PROVIDER_NOT_CONFIGURED", "OCR_BASE_URL environment variable is not set")
+      }
+      if (!apiKey && missingApiKeyMessage) {
+        return new OcrError("MISSING_API_KEY", missingApiKeyMessage)
+      }
+      return null
+    },
+    async recognize(image, options): Promise<ProviderResponse> {
+      const images = Array.isArray(image) ? image : [image]
+      logger.info("calling the upstream API", { provider: label, model: config.model, images: images.length })
+
+      const { onToken } = options
+      const requestPart = (partOptions: ProviderRecognizeOptions): Promise<CompletionPart> => {
+        if (!onToken) {
+          return completeChecked(images, partOptions)
+        }
+        // Once tokens have reached the client, a retry would send them a second time
+        let streamStarted = false
+        const forward = (delta: string) => {
+          streamStarted = true
+          onToken(delta)
+        }
+        return callUpstream(() => completeStreaming(images, partOptions, forward), () => !streamStarted)
+      }
+
+      let text = ""
+      for (let continuation = 0; ; continuation++) {
+        // Continuations show the model everything it has written so far and ask for the rest
+        const followUp = continuation === 0
+          ? options.followUp
+          : [...(options.followUp ?? []), { role: "assistant" as const, content: text }, { role: "user" as const, content: CONTINUE_PROMPT }]
+        // A cancelled request gets no further continuations
+        options.signal?.throwIfAborted()
+        const part = await requestPart({ ...options, followUp })
+        text += part.content
+
+        if (part.finishReason !== "length") {
+          return { text, truncated: false }
+        }
+        if (continuation >= config.maxContinuations) {
+          logger.warn("upstream response is still cut off; returning it truncated", { provider: label, continuations: continuation })
+          return { text, truncated: true }
+        }
+        logger.info("upstream response hit the token limit, requesting a continuation", {
+          provider: label,
+          continuation: continuation + 1,
+          maxContinuations: config.maxContinuations,
+        })
+      }
+    },
+    async probe() {
+      // A one-token text completion, sent once without retries or the circuit breaker so the probe
+      // reports the upstream as it is right now
+      try {
+        const openai = createOpenAIClient({ apiKey, baseURL, timeout: Math.min(config.timeoutMs, PROBE_TIMEOUT_MS) })
+        await instrumented(() =>
+          openai.chat.completions.create({
+            model: config.model,
+            messages: [{ role: "user", content: "Reply with OK." }],
+            max_tokens: 1,
+            temperature: 0,
+          }),
+        )
+      } catch (probeError) {
+        throw probeError instanceof OcrError ? probeError : toUpstreamError(probeError, label)
+      }
+    },
+  }
+}
+
+// The hosted Gravix Layer endpoint, authenticated with GRAVIXLAYER_API_KEY unless OCR_API_KEY is set
+export function createGravixProvider(config: ProviderConfig): OcrProvider {
+  return createEndpointProvider(config, {
+    name: "gravix",
+    label: "Gravix Layer",
+    baseURL: config.baseURL ?? GRAVIX_BASE_URL,
+    apiKey: config.apiKey,
+    missingApiKeyMessage: "GRAVIXLAYER_API_KEY environment variable is not set",
+  })
+}
+
+// Any endpoint that speaks the OpenAI chat-completions protocol, e.g. a self-hosted vLLM or Ollama server.
+// Requires OCR_BASE_URL; OCR_API_KEY is optional.
+export function createOpenAICompatibleProvider(config: ProviderConfig): OcrProvider {
+  return createEndpointProvider(config, {
+    name: "openai-compatible",
+    label: "Upstream",
+    baseURL: config.baseURL,
+    apiKey: config.apiKey,
+  })
+}
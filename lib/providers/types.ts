@@ -0,0 +1,68 @@
+import type { OcrError } from "@/lib/errors"
+
+// A later turn of the conversation, e.g. a previous answer and a request to correct it
+export interface ProviderMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface ProviderRecognizeOptions {
+  prompt: string
+  // Overrides the configured default, e.g. for long layout or extraction responses
+  maxTokens?: number
+  followUp?: ProviderMessage[]
+  // When set, the response is streamed and each text delta is forwarded here
+  onToken?: (delta: string) => void
+  // Aborts the upstream request, e.g. when the client that is streaming the result disconnects
+  signal?: AbortSignal
+}
+
+// The model's answer, joined across any continuation requests
+export interface ProviderResponse {
+  text: string
+  // The answer still stopped at the token limit after the last continuation the budget allowed
+  truncated: boolean
+}
+
+// Settings shared by every provider, read from the environment by lib/config.ts
+export interface ProviderConfig {
+  provider: string
+  baseURL?: string
+  apiKey?: string
+  model: string
+  temperature: number
+  maxTokens: number
+  // Layout responses list every word with its box, so they get a larger budget than plain text
+  layoutMaxTokens: number
+  // Budget for the JSON of structured extraction
+  extractionMaxTokens: number
+  // Follow-up requests allowed when a response stops at maxTokens
+  maxContinuations: number
+  timeoutMs: number
+  retry: {
+    maxRetries: number
+    baseDelayMs: number
+    maxDelayMs: number
+  }
+  circuitBreaker: {
+    failureThreshold: number
+    resetTimeoutMs: number
+  }
+}
+
+// A vision model that turns images into text
+export interface OcrProvider {
+  readonly name: string
+  readonly model: string
+  // Explains what is missing if the provider cannot be used (MISSING_API_KEY or PROVIDER_NOT_CONFIGURED),
+  // or returns null when it is ready
+  configurationError(): OcrError | null
+  // `image` is one or more data URLs; returns the model's raw text response. Responses cut off at the
+  // token limit are continued with follow-up requests, up to maxContinuations.
+  recognize(image: string | string[], options: ProviderRecognizeOptions): Promise<ProviderResponse>
+  // Makes the smallest possible request to confirm the endpoint accepts the key and serves the model,
+  // throwing a coded error if not. Used by the readiness check; providers without it are not probed.
+  probe?(): Promise<void>
+}
+
+export type OcrProviderFactory = (config: ProviderConfig) => OcrProvider
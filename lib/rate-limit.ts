@@ -0,0 +1,358 @@
+import type { AuthenticatedClient } from "@/lib/client-keys"
+import { getServerConfig } from "@/lib/config"
+import { OcrError, errorResponse } from "@/lib/errors"
+import { globalSingleton } from "@/lib/global-singleton"
+import { logger } from "@/lib/logger"
+
+export type RateLimitBackend = "memory" | "off"
+
+// Limits for one kind of client. Each request takes tokens from a bucket that refills continuously,
+// which allows short bursts, and counts against a quota that resets at midnight UTC.
+export interface RateLimitPolicy {
+  // Requests a client can make at once, i.e. the size of the bucket
+  burst: number
+  // Tokens added back per minute
+  perMinute: number
+  // Requests per UTC day, or 0 for no daily quota
+  dailyQuota: number
+}
+
+// Read from the environment by lib/config.ts
+export interface RateLimitConfig {
+  backend: RateLimitBackend
+  // Clients identified by their address
+  ip: RateLimitPolicy
+  // Clients authenticated with a client key
+  key: RateLimitPolicy
+  // Proxies in front of the app that append to X-Forwarded-For; 0 when requests arrive directly
+  trustedProxyHops: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TokenBucket {
+  capacity: number
+  refillPerMs: number
+}
+
+// Storage for buckets and quota counters. Implement this to share limits across instances; both
+// operations must be atomic per key. See createRedisRateLimitStore().
+export interface RateLimitStore {
+  readonly name: string
+  // Refill the bucket for the time since it was last used, then take `cost` tokens if it holds that many.
+  // Returns whether the tokens were taken and how many are left.
+  takeTokens(key: string, cost: number, bucket: TokenBucket, now: number): Promise<{ allowed: boolean; tokens: number }>
+  // Add `cost` (negative to give it back) to a counter that is discarded at `expiresAt`, and return the new total
+  addToCounter(key: string, cost: number, expiresAt: number): Promise<number>
+}
+
+// Entries beyond this many trigger a sweep of full buckets and expired counters
+const MEMORY_SWEEP_THRESHOLD = 10_000
+
+export interface MemoryRateLimitStore extends RateLimitStore {
+  // Buckets and counters currently held
+  size(): number
+}
+
+// Limits kept in process memory. Each server instance limits clients separately.
+export function createMemoryRateLimitStore(sweepThreshold: number = MEMORY_SWEEP_THRESHOLD): MemoryRateLimitStore {
+  // `fullAt` is when the bucket will have refilled completely; from then on it is the same as no bucket
+  const buckets = new Map<string, { tokens: number; updatedAt: number; fullAt: number }>()
+  const counters = new Map<string, { count: number; expiresAt: number }>()
+  // Raised after each sweep to twice what was left, so clients that are all still active do not make every
+  // request sweep the whole store
+  let nextSweepAt = sweepThreshold
+
+  const sweepIfLarge = (now: number) => {
+    if (buckets.size + counters.size <= nextSweepAt) {
+      return
+    }
+    for (const [key, bucket] of buckets) {
+      if (bucket.fullAt <= now) buckets.delete(key)
+    }
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= now) counters.delete(key)
+    }
+    nextSweepAt = Math.max(sweepThreshold, 2 * (buckets.size + counters.size))
+  }
+
+  return {
+    name: "memory",
+    size: () => buckets.size + counters.size,
+    async takeTokens(key, cost, { capacity, refillPerMs }, now) {
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now, fullAt: now }
+      bucket.tokens = Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * refillPerMs)
+      bucket.updatedAt = now
+      const allowed = bucket.tokens >= cost
+      if (allowed) {
+        bucket.tokens -= cost
+      }
+      bucket.fullAt = now + (capacity - bucket.tokens) / refillPerMs
+      buckets.set(key, bucket)
+      sweepIfLarge(now)
+      return { allowed, tokens: bucket.tokens }
+    },
+    async addToCounter(key, cost, expiresAt) {
+      const now = Date.now()
+      const existing = counters.get(key)
+      const counter = existing && existing.expiresAt > now ? existing : { count: 0, expiresAt }
+      counter.count += cost
+      counters.set(key, counter)
+      sweepIfLarge(now)
+      return counter.count
+    },
+  }
+}
+
+// The one command the shared store needs from a Redis-compatible client. Wrap your client to match, e.g. with ioredis:
+//   { eval: (script, keys, args) => redis.eval(script, keys.length, ...keys, ...args) }
+export interface RedisScriptClient {
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>
+}
+
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local now = tonumber(ARGV[4])
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+local allowed = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil((capacity - tokens) / refillPerMs) + 1000)
+return { allowed, tostring(tokens) }
+`
+
+const ADD_TO_COUNTER_SCRIPT = `
+local count = redis.call("INCRBY", KEYS[1], ARGV[1])
+redis.call("PEXPIREAT", KEYS[1], ARGV[2])
+return count
+`
+
+// Limits shared by every instance that talks to the same Redis-compatible server. Each operation is a
+// single script, so concurrent requests from one client cannot both take the last token.
+export function createRedisRateLimitStore(client: RedisScriptClient, prefix = "ocr:ratelimit:"): RateLimitStore {
+  return {
+    name: "redis",
+    async takeTokens(key, cost, { capacity, refillPerMs }, now) {
+      const [allowed, tokens] = (await client.eval(
+        TAKE_TOKENS_SCRIPT,
+        [prefix + key],
+        [String(capacity), String(refillPerMs), String(cost), String(now)],
+      )) as [number, string]
+      return { allowed: allowed === 1, tokens: Number(tokens) }
+    },
+    async addToCounter(key, cost, expiresAt) {
+      return Number(await client.eval(ADD_TO_COUNTER_SCRIPT, [prefix + key], [String(cost), String(expiresAt)]))
+    },
+  }
+}
+
+const activeStore = globalSingleton<RateLimitStore | null>("rateLimitStore", () =>
+  getServerConfig().rateLimit.backend === "off" ? null : createMemoryRateLimitStore(),
+)
+
+export function getRateLimitStore(): RateLimitStore | null {
+  return activeStore.get()
+}
+
+// Replace the configured store, e.g. with createRedisRateLimitStore(), or pass null to disable rate limiting
+export function setRateLimitStore(store: RateLimitStore | null) {
+  activeStore.set(store)
+}
+
+// Who a request is charged to
+export interface RateLimitSubject {
+  kind: "ip" | "key"
+  id: string
+}
+
+// The client address, as reported by the trusted proxies in front of the app. Each proxy appends the
+// address it received the request from to X-Forwarded-For, so only the last `trustedProxyHops` entries
+// are genuine; anything to their left was sent by the client and can be made up.
+export function clientAddress(request: Request, trustedProxyHops = getServerConfig().rateLimit.trustedProxyHops): string {
+  if (trustedProxyHops === 0) {
+    return "unknown"
+  }
+  const forwardedFor = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+  return forwardedFor[Math.max(0, forwardedFor.length - trustedProxyHops)] ?? "unknown"
+}
+
+// Clients with a valid key are limited by the key, wherever they call from; everyone else by address
+export function rateLimitSubjects(request: Request, client: AuthenticatedClient | null): RateLimitSubject[] {
+  return client ? [{ kind: "key", id: client.id }] : [{ kind: "ip", id: clientAddress(request) }]
+}
+
+// Where a client stands against one limit after a request
+export interface RateLimitState {
+  limit: number
+  remaining: number
+  // Seconds until the limit is back to full
+  resetSeconds: number
+  // Length of the limit's window in seconds, for the RateLimit-Policy header
+  windowSeconds: number
+}
+
+export interface RateLimitDecision {
+  allowed: boolean
+  // The limit that rejected the request
+  exceeded: "rate" | "quota" | null
+  subject: RateLimitSubject | null
+  // The limit closest to running out, which the RateLimit-* headers describe
+  state: RateLimitState | null
+  // Every limit that applied, for the RateLimit-Policy header
+  policies: RateLimitState[]
+  retryAfterSeconds: number | null
+}
+
+const UNLIMITED: RateLimitDecision = {
+  allowed: true,
+  exceeded: null,
+  subject: null,
+  state: null,
+  policies: [],
+  retryAfterSeconds: null,
+}
+
+// Charge `cost` requests to every subject. The request is allowed only if no limit is exceeded; a
+// rejected request does not count against the daily quota.
+export async function checkRateLimit(
+  subjects: RateLimitSubject[],
+  cost = 1,
+  config: RateLimitConfig = getServerConfig().rateLimit,
+): Promise<RateLimitDecision> {
+  const store = getRateLimitStore()
+  if (!store) {
+    return UNLIMITED
+  }
+  try {
+    return await chargeSubjects(store, subjects, cost, config)
+  } catch (storeError) {
+    // An unreachable store should not take the service down with it
+    logger.error("rate limit store failed, letting the request through", { store: store.name, error: storeError })
+    return UNLIMITED
+  }
+}
+
+async function chargeSubjects(
+  store: RateLimitStore,
+  subjects: RateLimitSubject[],
+  cost: number,
+  config: RateLimitConfig,
+): Promise<RateLimitDecision> {
+  const now = Date.now()
+  const endOfDay = (Math.floor(now / DAY_MS) + 1) * DAY_MS
+  const states: { subject: RateLimitSubject; state: RateLimitState }[] = []
+  // Quota counters charged so far, given back if a later limit rejects the request
+  const charged: string[] = []
+  const reject = async (decision: RateLimitDecision) => {
+    for (const key of charged) {
+      await store.addToCounter(key, -cost, endOfDay)
+    }
+    return decision
+  }
+
+  for (const subject of subjects) {
+    const policy = config[subject.kind]
+    const refillPerMs = policy.perMinute / 60_000
+    const bucket = await store.takeTokens(`${subject.kind}:${subject.id}:bucket`, cost, { capacity: policy.burst, refillPerMs }, now)
+    const rate: RateLimitState = {
+      limit: policy.burst,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil((policy.burst - bucket.tokens) / refillPerMs / 1000),
+      windowSeconds: Math.ceil(policy.burst / policy.perMinute * 60),
+    }
+    if (!bucket.allowed) {
+      return reject({
+        allowed: false,
+        exceeded: "rate",
+        subject,
+        state: rate,
+        policies: [rate],
+        retryAfterSeconds: Math.max(1, Math.ceil((cost - bucket.tokens) / refillPerMs / 1000)),
+      })
+    }
+    states.push({ subject, state: rate })
+
+    if (policy.dailyQuota > 0) {
+      const day = new Date(now).toISOString().slice(0, 10)
+      const quotaKey = `${subject.kind}:${subject.id}:quota:${day}`
+      const used = await store.addToCounter(quotaKey, cost, endOfDay)
+      charged.push(quotaKey)
+      const quota: RateLimitState = {
+        limit: policy.dailyQuota,
+        remaining: Math.max(0, policy.dailyQuota - used),
+        resetSeconds: Math.ceil((endOfDay - now) / 1000),
+        windowSeconds: DAY_MS / 1000,
+      }
+      if (used > policy.dailyQuota) {
+        return reject({
+          allowed: false,
+          exceeded: "quota",
+          subject,
+          state: quota,
+          policies: [quota],
+          retryAfterSeconds: quota.resetSeconds,
+        })
+      }
+      states.push({ subject, state: quota })
+    }
+  }
+
+  const closest = states.reduce<(typeof states)[number] | null>(
+    (best, entry) => (!best || entry.state.remaining < best.state.remaining ? entry : best),
+    null,
+  )
+  return {
+    allowed: true,
+    exceeded: null,
+    subject: closest?.subject ?? null,
+    state: closest?.state ?? null,
+    policies: states.map((entry) => entry.state),
+    retryAfterSeconds: null,
+  }
+}
+
+// Standard RateLimit-* headers describing a decision
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  if (!decision.state) {
+    return {}
+  }
+  return {
+    "RateLimit-Limit": String(decision.state.limit),
+    "RateLimit-Remaining": String(decision.state.remaining),
+    "RateLimit-Reset": String(decision.state.resetSeconds),
+    "RateLimit-Policy": decision.policies.map((policy) => `${policy.limit};w=${policy.windowSeconds}`).join(", "),
+  }
+}
+
+export function setRateLimitHeaders(response: Response, decision: RateLimitDecision): Response {
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+// The 429 response for a rejected request, with Retry-After and RateLimit-* headers
+export function rateLimitedResponse(decision: RateLimitDecision): Response {
+  const limit = decision.state?.limit ?? 0
+  const details = {
+    limit,
+    scope: decision.subject?.kind ?? null,
+    retryAfterSeconds: decision.retryAfterSeconds,
+  }
+  const error = decision.exceeded === "quota"
+    ? new OcrError("QUOTA_EXCEEDED", `Daily quota of ${limit} requests used up. It resets at midnight UTC.`, details)
+    : new OcrError("RATE_LIMITED", `Too many requests. Try again in ${decision.retryAfterSeconds} seconds.`, details)
+  logger.warn("request rejected by the rate limit", { limit: decision.exceeded, scope: decision.subject?.kind })
+  return setRateLimitHeaders(errorResponse(error), decision)
+}
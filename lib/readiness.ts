@@ -0,0 +1,115 @@
+import sharp from "sharp"
+import { loadServerConfig } from "@/lib/config"
+import { toApiError, type ErrorCode } from "@/lib/errors"
+import { globalSingleton } from "@/lib/global-singleton"
+import { logger } from "@/lib/logger"
+import { getOcrProvider } from "@/lib/providers"
+
+// "skip" means the check was not run, e.g. the upstream probe when it was not requested
+export type CheckStatus = "pass" | "fail" | "skip"
+
+export interface ReadinessCheck {
+  name: "configuration" | "provider" | "imageCodec" | "upstream"
+  status: CheckStatus
+  // Why the check failed or was skipped
+  message: string | null
+  // The error code a request would have failed with; lets the UI tell a missing API key from other problems
+  code: ErrorCode | null
+  durationMs: number
+}
+
+export interface ReadinessReport {
+  ready: boolean
+  checks: ReadinessCheck[]
+}
+
+// Probe results are reused for this long, so frequent readiness polling does not turn into upstream traffic
+const UPSTREAM_PROBE_TTL_MS = 60_000
+
+function skippedCheck(name: ReadinessCheck["name"], message: string): ReadinessCheck {
+  return { name, status: "skip", message, code: null, durationMs: 0 }
+}
+
+async function runCheck(name: ReadinessCheck["name"], check: () => Promise<string | null | void>): Promise<ReadinessCheck> {
+  const startedAt = performance.now()
+  try {
+    const skipped = await check()
+    return {
+      name,
+      status: typeof skipped === "string" ? "skip" : "pass",
+      message: typeof skipped === "string" ? skipped : null,
+      code: null,
+      durationMs: Math.round(performance.now() - startedAt),
+    }
+  } catch (error) {
+    const apiError = toApiError(error)
+    return { name, status: "fail", message: apiError.message, code: apiError.code, durationMs: Math.round(performance.now() - startedAt) }
+  }
+}
+
+// Every environment setting the routes read is valid. Parsed afresh, so this throws the same error, listing
+// every invalid variable, that requests would get.
+async function checkConfiguration() {
+  loadServerConfig()
+}
+
+// The selected provider exists and has what it needs, e.g. an API key
+async function checkProvider() {
+  const configurationError = getOcrProvider().configurationError()
+  if (configurationError) {
+    throw configurationError
+  }
+}
+
+// sharp's native binaries load and can round-trip an image through PNG and JPEG, as preprocessing and
+// upload encoding do
+async function checkImageCodec() {
+  const png = await sharp({ create: { width: 16, height: 16, channels: 3, background: "#ffffff" } }).png().toBuffer()
+  const jpeg = await sharp(png).jpeg({ quality: 90 }).toBuffer()
+  const { info } = await sharp(jpeg).raw().toBuffer({ resolveWithObject: true })
+  if (info.width !== 16 || info.height !== 16) {
+    throw new Error(`sharp decoded a 16x16 image as ${info.width}x${info.height}`)
+  }
+}
+
+// The last probe result
+const lastProbe = globalSingleton<{ checkedAt: number; result: Promise<ReadinessCheck> } | null>("upstreamProbe", () => null)
+
+async function probeUpstream(): Promise<ReadinessCheck> {
+  const cached = lastProbe.get()
+  if (cached && Date.now() - cached.checkedAt < UPSTREAM_PROBE_TTL_MS) {
+    return cached.result
+  }
+  const result = runCheck("upstream", async () => {
+    const provider = getOcrProvider()
+    if (!provider.probe) {
+      return `The "${provider.name}" provider cannot be probed`
+    }
+    await provider.probe()
+  })
+  lastProbe.set({ checkedAt: Date.now(), result })
+  return result
+}
+
+// Check whether this instance can serve OCR requests. The upstream model is only probed when asked
+// for, because each probe is a (tiny) billed completion; its result is reused for a minute.
+export async function checkReadiness({ probe = false }: { probe?: boolean } = {}): Promise<ReadinessReport> {
+  const configuration = await runCheck("configuration", checkConfiguration)
+  const provider = await runCheck("provider", checkProvider)
+  const imageCodec = await runCheck("imageCodec", checkImageCodec)
+
+  const upstream = !probe
+    ? skippedCheck("upstream", "Not requested; add ?probe=upstream")
+    : provider.status !== "pass"
+      ? skippedCheck("upstream", "Skipped: the provider is not configured")
+      : await probeUpstream()
+
+  const checks = [configuration, provider, imageCodec, upstream]
+  const ready = checks.every((check) => check.status !== "fail")
+  if (!ready) {
+    logger.warn("readiness check failed", {
+      checks: checks.filter((check) => check.status === "fail").map(({ name, code, message }) => ({ name, code, message })),
+    })
+  }
+  return { ready, checks }
+}
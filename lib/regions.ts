@@ -0,0 +1,96 @@
+import sharp from "sharp"
+import { z } from "zod"
+import { OcrError } from "@/lib/errors"
+import type { BoundingBox, OcrLayoutPage } from "@/lib/layout"
+
+export const MAX_REGIONS = 20
+
+// A rectangle of the upload in pixels, as displayed (i.e. after EXIF orientation)
+const cropRegionSchema = z
+  .object({
+    x: z.number().int().min(0),
+    y: z.number().int().min(0),
+    width: z.number().int().min(1),
+    height: z.number().int().min(1),
+  })
+  .strict()
+
+const cropRegionsSchema = z.array(cropRegionSchema).min(1).max(MAX_REGIONS)
+
+export type CropRegion = z.infer<typeof cropRegionSchema>
+
+// Parse the optional "regions" form field: a JSON array of rectangles, or null to recognize the whole image.
+// Throws INVALID_REQUEST with the validation issues when the value is not usable.
+export function parseRegions(value: FormDataEntryValue | null): CropRegion[] | null {
+  if (value === null || value === "") {
+    return null
+  }
+  if (typeof value !== "string") {
+    throw new OcrError("INVALID_REQUEST", "regions must be a JSON array of rectangles")
+  }
+
+  let regions: unknown
+  try {
+    regions = JSON.parse(value)
+  } catch {
+    throw new OcrError("INVALID_REQUEST", "regions must be a JSON array of rectangles")
+  }
+
+  const result = cropRegionsSchema.safeParse(regions)
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${["regions", ...issue.path].join(".")}: ${issue.message}`)
+    throw new OcrError("INVALID_REQUEST", "The regions are not valid", { issues })
+  }
+  return result.data
+}
+
+// Dimensions of an image as displayed, i.e. after its EXIF orientation, which is the frame regions refer to
+export async function displayedSize(imageBuffer: Buffer): Promise<{ width: number; height: number }> {
+  const metadata = await sharp(imageBuffer).metadata()
+  return {
+    width: metadata.autoOrient?.width ?? metadata.width ?? 0,
+    height: metadata.autoOrient?.height ?? metadata.height ?? 0,
+  }
+}
+
+// Throws INVALID_REQUEST if any region reaches outside the image
+export async function checkRegionBounds(imageBuffer: Buffer, regions: CropRegion[]): Promise<void> {
+  const { width, height } = await displayedSize(imageBuffer)
+  const issues = regions.flatMap((region, index) =>
+    region.x + region.width > width || region.y + region.height > height
+      ? [`regions.${index}: extends past the ${width}x${height} image`]
+      : [],
+  )
+  if (issues.length > 0) {
+    throw new OcrError("INVALID_REQUEST", "The regions must lie within the image", { issues })
+  }
+}
+
+// Cut each region out of an image, after applying its EXIF orientation so the coordinates match what
+// the user saw
+export async function cropRegions(imageBuffer: Buffer, regions: CropRegion[]): Promise<Buffer[]> {
+  await checkRegionBounds(imageBuffer, regions)
+  const upright = await sharp(imageBuffer).autoOrient().png({ compressionLevel: 0 }).toBuffer()
+  return Promise.all(
+    regions.map((region) =>
+      sharp(upright)
+        .extract({ left: region.x, top: region.y, width: region.width, height: region.height })
+        .png({ compressionLevel: 0 })
+        .toBuffer(),
+    ),
+  )
+}
+
+// Move the boxes of a region's layout into the coordinates of the whole image
+export function offsetLayoutBlocks(layoutPage: OcrLayoutPage, region: CropRegion): OcrLayoutPage["blocks"] {
+  const offset = (box: BoundingBox): BoundingBox => ({ ...box, x: box.x + region.x, y: box.y + region.y })
+  return layoutPage.blocks.map((block) => ({
+    ...block,
+    bbox: offset(block.bbox),
+    lines: block.lines.map((line) => ({
+      ...line,
+      bbox: offset(line.bbox),
+      words: line.words.map((word) => ({ ...word, bbox: offset(word.bbox) })),
+    })),
+  }))
+}
@@ -0,0 +1,56 @@
+export interface RetryOptions {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Decides whether a failed attempt is worth repeating, e.g. a 503 but not a 401
+  shouldRetry: (error: unknown) => boolean
+  // A delay requested by the server (Retry-After), which replaces the computed backoff
+  retryAfterMs?: (error: unknown) => number | null
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Exponential backoff with full jitter: a random delay between 0 and base * 2^(attempt - 1), capped
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1))
+  return Math.round(Math.random() * ceiling)
+}
+
+// Parse a Retry-After header, given either in seconds or as an HTTP date
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) {
+    return null
+  }
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+// Run `fn`, repeating it after transient failures until it succeeds or the retries run out.
+// The last error is rethrown unchanged.
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt > options.maxRetries || !options.shouldRetry(error)) {
+        throw error
+      }
+
+      const retryAfter = options.retryAfterMs?.(error) ?? null
+      // Waiting less than the server asked for would only be rejected again
+      if (retryAfter !== null && retryAfter > options.maxDelayMs) {
+        throw error
+      }
+
+      const delayMs = retryAfter ?? backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs)
+      options.onRetry?.(error, attempt, delayMs)
+      await sleep(delayMs)
+    }
+  }
+}
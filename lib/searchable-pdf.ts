@@ -0,0 +1,167 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  TextRenderingMode,
+  degrees,
+  setCharacterSqueeze,
+  setTextRenderingMode,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib"
+import sharp from "sharp"
+import { OcrError } from "@/lib/errors"
+import type { OcrLayoutPage } from "@/lib/layout"
+import { logger } from "@/lib/logger"
+import { isPdf } from "@/lib/pdf"
+
+// Standard fonts only cover WinAnsi, so characters outside it are dropped from the text layer
+function toEncodableText(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text)
+    .filter((character) => supported.has(character.codePointAt(0) ?? -1))
+    .join("")
+}
+
+// How a page appears once viewers apply its /Rotate, which is also how it was rasterized for recognition
+interface PageDisplay {
+  // Width of the visible area as displayed, in points
+  width: number
+  // Clockwise rotation: 0, 90, 180 or 270
+  rotation: number
+  // Maps a displayed point (origin at the top-left, y pointing down) into the page's own coordinate
+  // space, where the visible area is the CropBox and y points up
+  toPage: (u: number, v: number) => { x: number; y: number }
+}
+
+function pageDisplay(page: PDFPage): PageDisplay {
+  const box = page.getCropBox()
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360
+  switch (rotation) {
+    case 90:
+      return { width: box.height, rotation, toPage: (u, v) => ({ x: box.x + v, y: box.y + u }) }
+    case 180:
+      return { width: box.width, rotation, toPage: (u, v) => ({ x: box.x + box.width - u, y: box.y + v }) }
+    case 270:
+      return { width: box.height, rotation, toPage: (u, v) => ({ x: box.x + box.width - v, y: box.y + box.height - u }) }
+    default:
+      return { width: box.width, rotation: 0, toPage: (u, v) => ({ x: box.x + u, y: box.y + box.height - v }) }
+  }
+}
+
+// Draw every word of a layout page as invisible text over its bounding box. The layout was measured on
+// the page as displayed, so boxes are scaled to the displayed width and turned back by the page rotation.
+function drawTextLayer(page: PDFPage, layoutPage: OcrLayoutPage, font: PDFFont) {
+  const display = pageDisplay(page)
+  const scale = display.width / layoutPage.width
+
+  // Rendering mode 3 keeps the text selectable and searchable without painting it
+  page.pushOperators(setTextRenderingMode(TextRenderingMode.Invisible))
+
+  for (const block of layoutPage.blocks) {
+    for (const line of block.lines) {
+      for (const word of line.words) {
+        const text = toEncodableText(word.text, font)
+        const width = word.bbox.width * scale
+        const height = word.bbox.height * scale
+        if (!text || width <= 0 || height <= 0) {
+          continue
+        }
+
+        // Size the glyphs to the box height, then squeeze or stretch them to the box width
+        const size = height
+        const naturalWidth = font.widthOfTextAtSize(text, size)
+        const squeeze = naturalWidth > 0 ? (width / naturalWidth) * 100 : 100
+        page.pushOperators(setCharacterSqueeze(squeeze))
+
+        // Place the baseline just above the bottom of the box, running left to right as displayed
+        const { x, y } = display.toPage(word.bbox.x * scale, (word.bbox.y + word.bbox.height) * scale - height * 0.2)
+        page.drawText(text, { x, y, size, font, rotate: degrees(display.rotation) })
+      }
+    }
+  }
+
+  page.pushOperators(setCharacterSqueeze(100), setTextRenderingMode(TextRenderingMode.Fill))
+}
+
+// pdf-lib cannot decrypt, and saving an encrypted document without doing so produces a broken file
+async function loadUnencryptedPdf(pdfBuffer: Buffer): Promise<PDFDocument> {
+  // Loading with ignoreEncryption only to read isEncrypted: pdf-lib's own EncryptedPDFError cannot be told
+  // apart from other errors with instanceof
+  const document = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true })
+  if (document.isEncrypted) {
+    throw new OcrError("ENCRYPTED_PDF", "Encrypted PDFs cannot be made searchable; remove the encryption and upload it again")
+  }
+  return document
+}
+
+// Throw ENCRYPTED_PDF if the upload cannot be turned into a searchable PDF, so it is refused before any
+// page is sent to the model
+export async function checkSearchablePdfSource(originalBuffer: Buffer, mimeType: string): Promise<void> {
+  if (isPdf(originalBuffer, mimeType)) {
+    await loadUnencryptedPdf(originalBuffer)
+  }
+}
+
+// Lay the invisible text over the pages of an uploaded PDF, whose layout was measured on rasterized pages
+async function overlayOriginalPdf(pdfBuffer: Buffer, layout: OcrLayoutPage[]): Promise<PDFDocument> {
+  const document = await loadUnencryptedPdf(pdfBuffer)
+  const font = await document.embedFont(StandardFonts.Helvetica)
+  const pages = document.getPages()
+
+  for (const layoutPage of layout) {
+    const page = pages[layoutPage.page - 1]
+    if (!page || layoutPage.width <= 0) {
+      continue
+    }
+    drawTextLayer(page, layoutPage, font)
+  }
+
+  return document
+}
+
+// Build a one-page PDF showing the original image, sized by its DPI metadata
+async function imageToPdf(imageBuffer: Buffer, layoutPage: OcrLayoutPage | undefined): Promise<PDFDocument> {
+  const document = await PDFDocument.create()
+  const font = await document.embedFont(StandardFonts.Helvetica)
+  const metadata = await sharp(imageBuffer).metadata()
+
+  // PDF viewers ignore EXIF orientation, so bake it into the pixels to match the layout coordinates
+  if (metadata.orientation && metadata.orientation > 1) {
+    const upright = sharp(imageBuffer).autoOrient()
+    imageBuffer = metadata.format === "jpeg"
+      ? await upright.jpeg({ quality: 95 }).toBuffer()
+      : await upright.png().toBuffer()
+  }
+
+  // pdf-lib can only embed JPEG and PNG; everything else is converted to lossless PNG
+  const image = metadata.format === "jpeg"
+    ? await document.embedJpg(imageBuffer)
+    : metadata.format === "png"
+      ? await document.embedPng(imageBuffer)
+      : await document.embedPng(await sharp(imageBuffer).png().toBuffer())
+
+  const pointsPerPixel = 72 / (metadata.density || 72)
+  const width = image.width * pointsPerPixel
+  const height = image.height * pointsPerPixel
+
+  const page = document.addPage([width, height])
+  page.drawImage(image, { x: 0, y: 0, width, height })
+
+  if (layoutPage && layoutPage.width > 0) {
+    drawTextLayer(page, layoutPage, font)
+  }
+
+  return document
+}
+
+// Create a searchable PDF: the original upload with an invisible, selectable text layer on top
+export async function createSearchablePdf(originalBuffer: Buffer, mimeType: string, layout: OcrLayoutPage[]): Promise<Uint8Array> {
+  const document = isPdf(originalBuffer, mimeType)
+    ? await overlayOriginalPdf(originalBuffer, layout)
+    : await imageToPdf(originalBuffer, layout[0])
+
+  document.setProducer("GravixOCR")
+  const bytes = await document.save()
+  logger.info("searchable PDF created", { bytes: bytes.length })
+  return bytes
+}
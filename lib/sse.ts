@@ -0,0 +1,136 @@
+import type { CacheInfo } from "@/lib/cache"
+import type { ApiError } from "@/lib/errors"
+import type { OcrResult, OcrStage } from "@/lib/ocr"
+
+export interface SseEvent {
+  event: string
+  data: unknown
+}
+
+export const SSE_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+  // Stop reverse proxies such as nginx from buffering the stream
+  "X-Accel-Buffering": "no",
+}
+
+// Serialize one event in the text/event-stream wire format with a JSON payload
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Build a streaming response whose events are produced by `producer`.
+// The stream is closed once the producer settles. If the client goes away first, `signal` is aborted so
+// the producer can stop its upstream work, and later events are dropped.
+export function createSseResponse(
+  producer: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>,
+): Response {
+  const encoder = new TextEncoder()
+  const abortController = new AbortController()
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(formatSseEvent(event, data)))
+        }
+      }
+
+      try {
+        await producer(send, abortController.signal)
+      } finally {
+        // A cancelled stream is already closed and must not be closed again
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel(reason) {
+      closed = true
+      abortController.abort(reason)
+    },
+  })
+
+  return new Response(stream, { headers: SSE_HEADERS })
+}
+
+// Read a text/event-stream body and hand each parsed event to `onEvent` (client-side counterpart of formatSseEvent)
+export async function readSseEvents(body: ReadableStream<Uint8Array>, onEvent: (event: SseEvent) => void): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const dispatch = (rawEvent: string) => {
+    let event = "message"
+    const dataLines: string[] = []
+    for (const line of rawEvent.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+    if (dataLines.length > 0) {
+      onEvent({ event, data: JSON.parse(dataLines.join("\n")) })
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n")
+
+    let boundary = buffer.indexOf("\n\n")
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf("\n\n")
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
+
+export interface OcrStreamHandlers {
+  onStage?: (stage: OcrStage) => void
+  // Called after each token event with all the text received so far, pages separated by blank lines
+  onText?: (text: string) => void
+}
+
+// How an /api/ocr stream ended: the "done" payload, or the coded error the server sent instead
+export interface OcrStreamOutcome {
+  result: (OcrResult & { cache?: CacheInfo }) | null
+  error: ApiError | null
+}
+
+// Read the Server-Sent Events of a streamed /api/ocr request, as the web UI renders them
+export async function readOcrStream(body: ReadableStream<Uint8Array>, handlers: OcrStreamHandlers = {}): Promise<OcrStreamOutcome> {
+  const outcome: OcrStreamOutcome = { result: null, error: null }
+  let text = ""
+  let currentPage = 1
+
+  await readSseEvents(body, ({ event, data }) => {
+    const payload = data as { page?: number; text?: string; error?: ApiError }
+    if (event === "preprocessing" || event === "inference") {
+      handlers.onStage?.(event)
+    } else if (event === "token" && payload.text) {
+      const separator = payload.page && payload.page !== currentPage ? "\n\n" : ""
+      currentPage = payload.page ?? currentPage
+      text += separator + payload.text
+      handlers.onText?.(text)
+    } else if (event === "done") {
+      outcome.result = data as OcrStreamOutcome["result"]
+    } else if (event === "error") {
+      outcome.error = payload.error ?? null
+    }
+  })
+
+  return outcome
+}
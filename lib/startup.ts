@@ -0,0 +1,39 @@
+import { getServerConfig } from "@/lib/config"
+import { toApiError } from "@/lib/errors"
+import { logger } from "@/lib/logger"
+import { getOcrProvider } from "@/lib/providers"
+
+// Invalid configuration stops the server here, with every problem listed, instead of surfacing as failed
+// requests later. A provider that is merely not set up yet (e.g. no API key) only logs a warning, so the
+// web UI can still walk through the setup.
+export function checkConfigurationAtStartup() {
+  try {
+    const config = getServerConfig()
+    logger.info("configuration loaded", {
+      provider: config.provider.provider,
+      model: config.provider.model,
+      maxUploadBytes: config.maxUploadBytes,
+      cache: config.cache.backend,
+      rateLimit: config.rateLimit.backend,
+      clientKeys: config.clientKeys.mode,
+    })
+    if (config.clientKeys.mode === "optional" && process.env.NODE_ENV === "production") {
+      logger.warn("client keys are optional, so anyone who can reach the API can spend the upstream API key", {
+        hint: "set OCR_CLIENT_KEYS=required",
+      })
+    }
+  } catch (error) {
+    const { message, details } = toApiError(error)
+    logger.error("invalid configuration, stopping the server", { error: message, ...details })
+    process.exit(1)
+  }
+
+  try {
+    const configurationError = getOcrProvider().configurationError()
+    if (configurationError) {
+      logger.warn("OCR provider is not configured", { error: configurationError.message })
+    }
+  } catch (error) {
+    logger.warn("OCR provider is not configured", { error })
+  }
+}
@@ -0,0 +1,250 @@
+import sharp from "sharp"
+
+// "off" sends the whole image in one request, "on" splits any image larger than one tile and "auto"
+// only splits images larger than AUTO_TILING_MIN_SIZE
+export type TilingMode = "off" | "auto" | "on"
+
+export const TILING_MODES: TilingMode[] = ["off", "auto", "on"]
+
+// Longest side of a tile, in processed-image pixels. Vision models downscale larger images anyway.
+// Must stay below MAX_IMAGE_DIMENSION in lib/image-encoding.ts so tiles are sent at full size.
+export const TILE_SIZE = 1600
+// Neighbouring tiles share this many pixels, so a text line cut by one tile edge is whole in the other
+export const TILE_OVERLAP = 200
+// In "auto" mode, images whose longest side is at most this size are sent whole
+export const AUTO_TILING_MIN_SIZE = 2400
+// Tiles of one image recognized at the same time
+export const TILE_CONCURRENCY = 4
+
+// Only the last and first lines of vertically neighbouring tiles are compared when removing the overlap
+const MAX_OVERLAP_LINES = 12
+// Only the last and first words of two parts of a line are compared when removing the horizontal overlap
+const MAX_OVERLAP_WORDS = 12
+// Lines with at least this similarity count as the same line read twice
+const LINE_MATCH_SIMILARITY = 0.8
+
+export interface Region {
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+// A rectangle of the processed image, in pixels
+export interface Tile {
+  index: number
+  row: number
+  column: number
+  x: number
+  y: number
+  width: number
+  height: number
+  // The part of the tile no neighbour is closer to. Words centered outside it belong to another tile.
+  owned: Region
+}
+
+// Parse the optional "tiling" form field, defaulting to "off"
+export function parseTiling(value: FormDataEntryValue | null): TilingMode | null {
+  if (value === null || value === "") {
+    return "off"
+  }
+  return TILING_MODES.find((mode) => mode === value) ?? null
+}
+
+export function shouldTile(mode: TilingMode, width: number, height: number): boolean {
+  const longestSide = Math.max(width, height)
+  if (mode === "on") {
+    return longestSide > TILE_SIZE
+  }
+  return mode === "auto" && longestSide > AUTO_TILING_MIN_SIZE
+}
+
+// Split `size` pixels into evenly spaced, overlapping spans of at most TILE_SIZE
+function planSpans(size: number): { start: number; length: number; ownedStart: number; ownedEnd: number }[] {
+  if (size <= TILE_SIZE) {
+    return [{ start: 0, length: size, ownedStart: 0, ownedEnd: size }]
+  }
+  const count = Math.ceil((size - TILE_OVERLAP) / (TILE_SIZE - TILE_OVERLAP))
+  const length = Math.ceil((size + TILE_OVERLAP * (count - 1)) / count)
+  const step = (size - length) / (count - 1)
+  const starts = Array.from({ length: count }, (_, index) => Math.round(index * step))
+
+  return starts.map((start, index) => ({
+    start,
+    length,
+    // Each overlap is split down the middle between the two tiles that share it
+    ownedStart: index === 0 ? 0 : (start + starts[index - 1] + length) / 2,
+    ownedEnd: index === count - 1 ? size : (starts[index + 1] + start + length) / 2,
+  }))
+}
+
+// Tiles covering a width x height image, row by row so that they follow the reading order
+export function planTiles(width: number, height: number): Tile[] {
+  const columns = planSpans(width)
+  const rows = planSpans(height)
+  const tiles: Tile[] = []
+  rows.forEach((row, rowIndex) => {
+    columns.forEach((column, columnIndex) => {
+      tiles.push({
+        index: tiles.length,
+        row: rowIndex,
+        column: columnIndex,
+        x: column.start,
+        y: row.start,
+        width: column.length,
+        height: row.length,
+        owned: { x0: column.ownedStart, y0: row.ownedStart, x1: column.ownedEnd, y1: row.ownedEnd },
+      })
+    })
+  })
+  return tiles
+}
+
+export async function cropTile(imageBuffer: Buffer, tile: Tile): Promise<Buffer> {
+  return sharp(imageBuffer)
+    .extract({ left: tile.x, top: tile.y, width: tile.width, height: tile.height })
+    .png({ compressionLevel: 0 })
+    .toBuffer()
+}
+
+function normalizeLine(line: string): string {
+  return line.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "")
+}
+
+// 1 for identical lines, falling towards 0 as the edit distance grows
+function lineSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length === 0 || b.length === 0) return 0
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+// Join the text of two vertically neighbouring tiles, dropping the lines both of them read.
+// The overlap is the longest run of matching lines at the end of `upper` and the start of `lower`;
+// the line at each cut edge may be garbled, so the run may stop one line short of either edge.
+function joinVertically(upper: string[], lower: string[]): string[] {
+  const tail = upper.slice(-MAX_OVERLAP_LINES).map(normalizeLine)
+  const head = lower.slice(0, MAX_OVERLAP_LINES).map(normalizeLine)
+  const matches = (i: number, j: number) =>
+    tail[i] !== "" && head[j] !== "" && lineSimilarity(tail[i], head[j]) >= LINE_MATCH_SIMILARITY
+
+  let best: { upperEnd: number; lowerEnd: number; length: number } | null = null
+  for (let i = 0; i < tail.length; i++) {
+    for (let j = 0; j < Math.min(head.length, 2); j++) {
+      let length = 0
+      let characters = 0
+      while (i + length < tail.length && j + length < head.length && matches(i + length, j + length)) {
+        characters += tail[i + length].length
+        length++
+      }
+      const reachesEdge = i + length >= tail.length - 1
+      // A single short line such as a page number is too weak to prove an overlap
+      if (length > 0 && reachesEdge && (length > 1 || characters >= 8) && (!best || length > best.length)) {
+        best = { upperEnd: upper.length - tail.length + i + length, lowerEnd: j + length, length }
+      }
+    }
+  }
+
+  if (!best) {
+    return [...upper, ...lower]
+  }
+  return [...upper.slice(0, best.upperEnd), ...lower.slice(best.lowerEnd)]
+}
+
+// Join the two parts of a line read by horizontally neighbouring tiles, or null if they share no words.
+// Like joinVertically, the overlap may stop one word short of either cut edge, where a word can be garbled;
+// the cut word is then taken from the tile that read it whole.
+function joinLineParts(left: string, right: string): string | null {
+  const leftWords = left.trim().split(/\s+/)
+  const rightWords = right.trim().split(/\s+/)
+  const tail = leftWords.slice(-MAX_OVERLAP_WORDS).map(normalizeLine)
+  const head = rightWords.slice(0, MAX_OVERLAP_WORDS).map(normalizeLine)
+
+  let best: { leftEnd: number; rightStart: number; length: number } | null = null
+  for (let skipLeft = 0; skipLeft <= 1; skipLeft++) {
+    for (let skipRight = 0; skipRight <= 1; skipRight++) {
+      for (let length = Math.min(tail.length - skipLeft, head.length - skipRight); length > 0; length--) {
+        const tailWords = tail.slice(tail.length - skipLeft - length, tail.length - skipLeft)
+        const headWords = head.slice(skipRight, skipRight + length)
+        const characters = tailWords.join("").length
+        const same = tailWords.every((word, index) => word !== "" && word === headWords[index])
+        // A single short word such as "a" or "the" is too weak to prove an overlap
+        if (same && (length > 1 || characters >= 4)) {
+          if (!best || length > best.length) {
+            best = { leftEnd: leftWords.length - skipLeft, rightStart: skipRight + length, length }
+          }
+          break
+        }
+      }
+    }
+  }
+
+  if (!best) {
+    return null
+  }
+  return [...leftWords.slice(0, best.leftEnd), ...rightWords.slice(best.rightStart)].join(" ")
+}
+
+// Join the text of two horizontally neighbouring tiles line by line. Both tiles read the same band of the
+// image, so their lines are aligned in order: pairs whose ends overlap are joined without the repeated
+// words, other pairs side by side, and lines with no partner (text on one side only) stand alone.
+// Blank lines are dropped, since paragraph breaks cannot be matched up across tiles.
+function joinHorizontally(leftLines: string[], rightLines: string[]): string[] {
+  const left = leftLines.filter((line) => line.trim() !== "")
+  const right = rightLines.filter((line) => line.trim() !== "")
+  // score[i][j]: the best alignment of the first i left lines with the first j right lines. Every pair
+  // scores, and pairs that overlap score more, so equal line counts pair up in order.
+  const joined = left.map((leftLine) => right.map((rightLine) => joinLineParts(leftLine, rightLine)))
+  const pairScore = (i: number, j: number) => (joined[i][j] !== null ? 3 : 1)
+  const score = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0))
+  for (let i = 1; i <= left.length; i++) {
+    for (let j = 1; j <= right.length; j++) {
+      score[i][j] = Math.max(score[i - 1][j], score[i][j - 1], score[i - 1][j - 1] + pairScore(i - 1, j - 1))
+    }
+  }
+
+  const lines: string[] = []
+  let i = left.length
+  let j = right.length
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && score[i][j] === score[i - 1][j - 1] + pairScore(i - 1, j - 1)) {
+      const leftLine = left[i - 1].trimEnd()
+      const rightLine = right[j - 1].trim()
+      lines.push(joined[i - 1][j - 1] ?? (leftLine && rightLine ? `${leftLine} ${rightLine}` : leftLine || rightLine))
+      i--
+      j--
+    } else if (i > 0 && (j === 0 || score[i][j] === score[i - 1][j])) {
+      lines.push(left[--i])
+    } else {
+      lines.push(right[--j])
+    }
+  }
+  return lines.reverse()
+}
+
+// Stitch the text of each tile back together in reading order: the tiles of each row from left to right
+// with their horizontal overlap removed, then the rows from top to bottom with their vertical overlap removed
+export function mergeTileText(tiles: Tile[], texts: string[]): string {
+  const rows = new Map<number, { column: number; lines: string[] }[]>()
+  tiles.forEach((tile, index) => {
+    const lines = texts[index].split("\n").map((line) => line.trimEnd())
+    rows.set(tile.row, [...(rows.get(tile.row) ?? []), { column: tile.column, lines }])
+  })
+
+  const rowLines = Array.from(rows.entries())
+    .sort(([rowA], [rowB]) => rowA - rowB)
+    .map(([, rowTiles]) =>
+      rowTiles
+        .sort((a, b) => a.column - b.column)
+        .map((tile) => tile.lines)
+        .reduce((joinedLines, lines) => joinHorizontally(joinedLines, lines)),
+    )
+  return rowLines.reduce((joinedLines, lines) => joinVertically(joinedLines, lines)).join("\n").trim()
+}
@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// A size limit for messages, e.g. "10MB", "2.5MB" or "500KB"
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))}KB`
+  }
+  return `${Number((bytes / (1024 * 1024)).toFixed(1))}MB`
+}
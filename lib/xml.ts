@@ -0,0 +1,15 @@
+// Control characters other than tab, line feed and carriage return cannot appear in an XML 1.0 document,
+// not even as character references
+const INVALID_XML_CHARACTERS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/g
+
+// Escape text for use in XML/XHTML element content and double-quoted attribute values, dropping
+// characters XML does not allow
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARACTERS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
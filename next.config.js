@@ -1,7 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   experimental: {
-    serverComponentsExternalPackages: ['sharp']
+    serverComponentsExternalPackages: ['sharp', 'pdfjs-dist', '@napi-rs/canvas'],
+    // Checks the configuration at startup; see instrumentation.ts
+    instrumentationHook: true,
   },
   images: {
     remotePatterns: [
@@ -12,29 +14,6 @@ const nextConfig = {
     ],
   },
   
-  // API route configuration
-  async headers() {
-    return [
-      {
-        source: '/api/:path*',
-        headers: [
-          {
-            key: 'Access-Control-Allow-Origin',
-            value: '*',
-          },
-          {
-            key: 'Access-Control-Allow-Methods',
-            value: 'GET, POST, PUT, DELETE, OPTIONS',
-          },
-          {
-            key: 'Access-Control-Allow-Headers',
-            value: 'Content-Type, Authorization',
-          },
-        ],
-      },
-    ]
-  },
-  
   // Webpack configuration for better builds
   webpack: (config, { isServer }) => {
     if (!isServer) {
@@ -0,0 +1,74 @@
+// Issue, list, revoke and export the client API keys accepted by the OCR routes, using the same key
+// format and file store as the server. The key itself is only shown once, when it is issued.
+//
+// Usage:
+//   npm run client-keys -- issue "Acme integration"
+//   npm run client-keys -- list
+//   npm run client-keys -- revoke <id>
+//   npm run client-keys -- export     prints the records for OCR_CLIENT_KEYS_JSON
+//
+// Environment:
+//   OCR_CLIENT_KEYS_FILE  JSON file of key records (default data/client-keys.json)
+
+import { createFileClientKeyStore, issueClientKey, revokeClientKey } from "@/lib/client-keys"
+import { getServerConfig } from "@/lib/config"
+
+const { file } = getServerConfig().clientKeys
+const store = createFileClientKeyStore(file)
+
+async function issue(name: string | undefined) {
+  if (!name) {
+    console.error('Usage: client-keys issue "<name>"')
+    process.exit(1)
+  }
+  const { key, record } = await issueClientKey(name, store)
+  console.log(`Issued key ${record.id} for "${name}". Store it now; it cannot be shown again:\n\n  ${key}\n`)
+}
+
+async function list() {
+  const records = await store.list()
+  if (records.length === 0) {
+    console.log(`No keys in ${file}.`)
+    return
+  }
+  for (const record of records) {
+    const status = record.revokedAt ? `revoked ${record.revokedAt}` : "active"
+    console.log(`${record.id}  ${record.prefix}...  ${record.name}  (created ${record.createdAt}, ${status})`)
+  }
+}
+
+async function revoke(id: string | undefined) {
+  const record = id ? await revokeClientKey(id, store) : null
+  if (!record) {
+    console.error(`No key with id "${id ?? ""}" in ${file}.`)
+    process.exit(1)
+  }
+  console.log(`Revoked key ${record.id} ("${record.name}").`)
+}
+
+// One line, ready to paste into the OCR_CLIENT_KEYS_JSON variable or secret
+async function exportRecords() {
+  console.log(JSON.stringify(await store.list()))
+}
+
+async function main(command: string | undefined, argument: string | undefined) {
+  switch (command) {
+    case "issue":
+      return issue(argument)
+    case "list":
+      return list()
+    case "revoke":
+      return revoke(argument)
+    case "export":
+      return exportRecords()
+    default:
+      console.error('Usage: client-keys <issue "<name>" | list | revoke <id> | export>')
+      process.exit(1)
+  }
+}
+
+const [command, argument] = process.argv.slice(2)
+main(command, argument).catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,161 @@
+// Local stand-in for the Gravix Layer inference API, for offline development and tests.
+// Speaks the OpenAI chat-completions protocol used by the openai client, including streaming.
+//
+// Usage:
+//   npm run mock:inference
+//   OCR_PROVIDER=openai-compatible OCR_BASE_URL=http://localhost:4010/v1 npm run dev
+//
+// Environment:
+//   MOCK_PORT        port to listen on (default 4010)
+//   MOCK_RESPONSE    text returned when no scripted step is queued (default "Mock OCR text")
+//   MOCK_LATENCY_MS  delay before every response (default 0)
+//   MOCK_API_KEY     when set, requests must send "Authorization: Bearer <MOCK_API_KEY>"
+//   MOCK_SCRIPT      path to a JSON file with an array of steps to queue at startup
+//
+// A step describes how to answer one request; steps are used in order, then the default response applies:
+//   { "content": "text" }                     reply with this text
+//   { "status": 429, "retryAfter": 2 }        reply with an error status (401, 429, 500, ...)
+//   { "timeout": true }                       accept the request and never answer
+//   { "delayMs": 500 }                        extra latency for this step
+//   { "finishReason": "length" }              finish reason reported with the content
+//
+// A single request can also pick an error with the "x-mock-scenario" header: 401, 429, 500 or timeout.
+//
+// Control endpoints:
+//   POST /__mock/script    replace the queue with the JSON array of steps in the body
+//   GET  /__mock/requests  chat-completion requests received so far
+//   POST /__mock/reset     clear the queue and the request log
+
+import { readFileSync } from "node:fs"
+import http from "node:http"
+
+const port = Number(process.env.MOCK_PORT || 4010)
+const defaultContent = process.env.MOCK_RESPONSE || "Mock OCR text"
+const latencyMs = Number(process.env.MOCK_LATENCY_MS || 0)
+const requiredApiKey = process.env.MOCK_API_KEY || ""
+
+let queue = process.env.MOCK_SCRIPT ? JSON.parse(readFileSync(process.env.MOCK_SCRIPT, "utf8")) : []
+let receivedRequests = []
+
+const errorBodies = {
+  400: { message: "Bad request", type: "invalid_request_error", code: "bad_request" },
+  401: { message: "Invalid API key", type: "invalid_request_error", code: "invalid_api_key" },
+  403: { message: "Forbidden", type: "invalid_request_error", code: "forbidden" },
+  404: { message: "Model not found", type: "invalid_request_error", code: "model_not_found" },
+  429: { message: "Rate limit exceeded", type: "rate_limit_error", code: "rate_limit_exceeded" },
+  500: { message: "Internal server error", type: "server_error", code: "internal_error" },
+  503: { message: "Service unavailable", type: "server_error", code: "service_unavailable" },
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  let body = ""
+  for await (const chunk of req) {
+    body += chunk
+  }
+  return body
+}
+
+function sendError(res, status, retryAfter) {
+  const error = errorBodies[status] || { message: `Mock error ${status}`, type: "server_error", code: null }
+  const headers = status === 429 ? { "Retry-After": String(retryAfter ?? 1) } : {}
+  sendJson(res, status, { error }, headers)
+}
+
+function sendCompletion(res, request, content, finishReason) {
+  const id = `chatcmpl-mock-${Date.now()}`
+  const created = Math.floor(Date.now() / 1000)
+
+  if (!request.stream) {
+    sendJson(res, 200, {
+      id,
+      object: "chat.completion",
+      created,
+      model: request.model,
+      choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: finishReason }],
+      usage: { prompt_tokens: 0, completion_tokens: content.split(/\s+/).length, total_tokens: 0 },
+    })
+    return
+  }
+
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" })
+  const chunk = (delta, finish) =>
+    `data: ${JSON.stringify({
+      id,
+      object: "chat.completion.chunk",
+      created,
+      model: request.model,
+      choices: [{ index: 0, delta, finish_reason: finish }],
+    })}\n\n`
+
+  // Stream word by word so clients see incremental tokens
+  for (const piece of content.split(/(?=\s)/)) {
+    res.write(chunk({ content: piece }, null))
+  }
+  res.write(chunk({}, finishReason))
+  res.end("data: [DONE]\n\n")
+}
+
+async function handleChatCompletion(req, res) {
+  const request = JSON.parse((await readBody(req)) || "{}")
+  receivedRequests.push({ receivedAt: new Date().toISOString(), headers: req.headers, body: request })
+
+  if (requiredApiKey && req.headers.authorization !== `Bearer ${requiredApiKey}`) {
+    sendError(res, 401)
+    return
+  }
+
+  const scenario = req.headers["x-mock-scenario"]
+  const step = scenario
+    ? scenario === "timeout" ? { timeout: true } : { status: Number(scenario) }
+    : queue.shift() || {}
+
+  await sleep(latencyMs + (step.delayMs || 0))
+
+  if (step.timeout) {
+    // Leave the request hanging until the client gives up
+    return
+  }
+  if (step.status && step.status >= 400) {
+    sendError(res, step.status, step.retryAfter)
+    return
+  }
+
+  sendCompletion(res, request, step.content ?? defaultContent, step.finishReason || "stop")
+}
+
+const server = http.createServer(async (req, res) => {
+  try {
+    const path = new URL(req.url || "/", "http://localhost").pathname
+
+    if (req.method === "POST" && path.endsWith("/chat/completions")) {
+      await handleChatCompletion(req, res)
+    } else if (req.method === "GET" && path.endsWith("/models")) {
+      sendJson(res, 200, { object: "list", data: [{ id: "google/gemma-3-12b-it", object: "model", owned_by: "mock" }] })
+    } else if (req.method === "POST" && path === "/__mock/script") {
+      queue = JSON.parse((await readBody(req)) || "[]")
+      sendJson(res, 200, { queued: queue.length })
+    } else if (req.method === "GET" && path === "/__mock/requests") {
+      sendJson(res, 200, receivedRequests)
+    } else if (req.method === "POST" && path === "/__mock/reset") {
+      queue = []
+      receivedRequests = []
+      sendJson(res, 200, { reset: true })
+    } else {
+      sendJson(res, 404, { error: { message: `No mock route for ${req.method} ${path}`, type: "invalid_request_error" } })
+    }
+  } catch (error) {
+    console.error("Mock inference server error:", error)
+    sendJson(res, 400, { error: { message: String(error), type: "invalid_request_error" } })
+  }
+})
+
+server.listen(port, () => {
+  console.log(`Mock inference server listening on http://localhost:${port}/v1`)
+})
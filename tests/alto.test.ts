@@ -0,0 +1,44 @@
+import { readFileSync } from "node:fs"
+import path from "node:path"
+import { validateXML } from "xmllint-wasm"
+import { describe, expect, it } from "vitest"
+import { toAlto } from "@/lib/alto"
+import { LAYOUT_FIXTURE } from "./fixtures/layout"
+
+const ALTO_SCHEMA = {
+  fileName: "alto-4-2-subset.xsd",
+  contents: readFileSync(path.join(__dirname, "fixtures", "alto-4-2-subset.xsd"), "utf8"),
+}
+
+const validateAlto = (xml: string) => validateXML({ xml: { fileName: "document.alto.xml", contents: xml }, schema: ALTO_SCHEMA })
+
+describe("toAlto", () => {
+  it("produces a document that validates against the ALTO schema", async () => {
+    const result = await validateAlto(toAlto(LAYOUT_FIXTURE, "scan & copy.pdf"))
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+  })
+
+  it("writes one Page per layout page with every word as a positioned String", () => {
+    const alto = toAlto(LAYOUT_FIXTURE, "scan.pdf")
+    expect(alto.match(/<Page /g)).toHaveLength(2)
+    expect(alto).toContain('<Page ID="page_2" PHYSICAL_IMG_NR="2" WIDTH="1200" HEIGHT="1600">')
+    expect(alto.match(/<TextLine /g)).toHaveLength(4)
+    expect(alto.match(/<String /g)).toHaveLength(9)
+    expect(alto).toContain('<String ID="string_1_1_1_2" CONTENT="#42" HPOS="370" VPOS="80" WIDTH="130" HEIGHT="60"/>')
+  })
+
+  it("escapes word content and drops control characters", () => {
+    const alto = toAlto(LAYOUT_FIXTURE, "scan.pdf")
+    expect(alto).toContain('CONTENT="&amp;"')
+    expect(alto).toContain('CONTENT="&lt;Ltd&gt;"')
+    expect(alto).toContain('CONTENT="it&apos;s"')
+    expect(alto).not.toMatch(/[\x00-\x08\x0B\x0C\x0E-\x1F]/)
+  })
+
+  it("is rejected by the schema when a String has no CONTENT", async () => {
+    const alto = toAlto(LAYOUT_FIXTURE, "scan.pdf").replace('CONTENT="Total" ', "")
+    const result = await validateAlto(alto)
+    expect(result.valid).toBe(false)
+  })
+})
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it, vi } from "vitest"
+import { withApiAccess } from "@/lib/api-access"
+import { createStaticClientKeyStore, hashClientKey, setClientKeyStore } from "@/lib/client-keys"
+
+const KEY = "ocr_test-key-for-api-access-test"
+
+beforeAll(() => {
+  Object.assign(process.env, {
+    OCR_CLIENT_KEYS: "required",
+    OCR_PUBLIC_ORIGIN: "https://ocr.example.com",
+    OCR_ALLOWED_ORIGINS: "https://partner.example",
+    OCR_RATE_LIMIT: "off",
+    OCR_LOG_LEVEL: "error",
+  })
+  setClientKeyStore(
+    createStaticClientKeyStore([
+      { id: "k1", name: "Acme", hash: hashClientKey(KEY), prefix: KEY.slice(0, 12), createdAt: "", revokedAt: null },
+    ]),
+  )
+})
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/api/ocr", { method: "POST", headers })
+
+describe("withApiAccess", () => {
+  it("runs the handler for a valid key from an allowed origin", async () => {
+    const handler = vi.fn(async () => new Response("ok"))
+
+    const response = await withApiAccess(request({ origin: "https://partner.example", authorization: `Bearer ${KEY}` }), handler)
+
+    expect(response.status).toBe(200)
+    expect(handler).toHaveBeenCalledWith({ id: "k1", name: "Acme" })
+    expect(response.headers.get("access-control-allow-origin")).toBe("https://partner.example")
+  })
+
+  it("rejects other origins before checking the key", async () => {
+    const handler = vi.fn(async () => new Response("ok"))
+
+    const response = await withApiAccess(request({ origin: "https://evil.example", authorization: `Bearer ${KEY}` }), handler)
+
+    expect(response.status).toBe(403)
+    expect((await response.json()).error.code).toBe("ORIGIN_NOT_ALLOWED")
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("asks for a key when none is sent", async () => {
+    const handler = vi.fn(async () => new Response("ok"))
+
+    const response = await withApiAccess(request({}), handler)
+
+    expect(response.status).toBe(401)
+    expect((await response.json()).error.code).toBe("MISSING_CLIENT_KEY")
+    expect(response.headers.get("www-authenticate")).toBe('Bearer realm="ocr"')
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,112 @@
+import { NextRequest } from "next/server"
+import { PDFDocument } from "pdf-lib"
+import sharp from "sharp"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { startMockInferenceServer, useMockInferenceServer, type MockInferenceServer } from "../helpers/mock-inference-server"
+
+let mock: MockInferenceServer
+let POST: (request: NextRequest) => Promise<Response>
+let image: Buffer
+let twoPagePdf: Buffer
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer()
+
+  useMockInferenceServer(mock, {
+    OCR_RATE_LIMIT: "memory",
+    OCR_RATE_LIMIT_IP_BURST: "3",
+    OCR_RATE_LIMIT_IP_PER_MINUTE: "1",
+    OCR_MAX_BATCH_CONCURRENCY: "2",
+  })
+  ;({ POST } = await import("@/app/api/ocr/batch/route"))
+
+  image = await sharp({ create: { width: 200, height: 100, channels: 3, background: "#ffffff" } }).png().toBuffer()
+  const pdfDocument = await PDFDocument.create()
+  pdfDocument.addPage([200, 100])
+  pdfDocument.addPage([200, 100])
+  twoPagePdf = Buffer.from(await pdfDocument.save())
+}, 30_000)
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+type BatchEntry = { name: string; data: Buffer; type: string } | string
+
+// Each test sends from its own address, so the rate limit of one test does not affect another
+function batchRequest(address: string, entries: BatchEntry[], fields: Record<string, string> = {}): NextRequest {
+  const formData = new FormData()
+  for (const entry of entries) {
+    if (typeof entry === "string") {
+      formData.append("images", entry)
+    } else {
+      formData.append("images", new Blob([new Uint8Array(entry.data)], { type: entry.type }), entry.name)
+    }
+  }
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value)
+  }
+  return new NextRequest("http://localhost/api/ocr/batch", {
+    method: "POST",
+    body: formData,
+    headers: { "x-forwarded-for": address },
+  })
+}
+
+const png = (name: string) => ({ name, data: image, type: "image/png" })
+
+describe("POST /api/ocr/batch", () => {
+  it("reports each file on its own, so an unreadable file does not fail the batch", async () => {
+    await mock.script([{ content: "Invoice 1" }])
+
+    const response = await POST(
+      batchRequest("203.0.113.1", [png("invoice-1.png"), { name: "notes.png", data: Buffer.from("not an image"), type: "image/png" }]),
+    )
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.results).toMatchObject([
+      { index: 0, filename: "invoice-1.png", status: "success", text: "Invoice 1" },
+      { index: 1, filename: "notes.png", status: "error", error: { code: "INVALID_IMAGE" } },
+    ])
+    expect(body.summary).toEqual({ total: 2, succeeded: 1, failed: 1 })
+  })
+
+  it("rejects images entries that are not files", async () => {
+    const response = await POST(batchRequest("203.0.113.2", [png("invoice-1.png"), "invoice-2.png"]))
+
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error).toMatchObject({ code: "INVALID_REQUEST", details: { indexes: [1] } })
+    expect(await mock.requests()).toHaveLength(0)
+  })
+
+  it("rejects a concurrency above OCR_MAX_BATCH_CONCURRENCY", async () => {
+    const response = await POST(batchRequest("203.0.113.3", [png("invoice-1.png")], { concurrency: "3" }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).error.message).toBe("Concurrency must be an integer between 1 and 2")
+  })
+
+  it("charges one request per page", async () => {
+    await mock.script([{ content: "Page 1" }, { content: "Page 2" }, { content: "Invoice" }])
+
+    const first = await POST(
+      batchRequest("203.0.113.4", [{ name: "scan.pdf", data: twoPagePdf, type: "application/pdf" }, png("invoice.png")], {
+        dpi: "72",
+        concurrency: "1",
+      }),
+    )
+
+    expect(first.status).toBe(200)
+    expect(first.headers.get("RateLimit-Remaining")).toBe("0")
+    expect(await mock.requests()).toHaveLength(3)
+
+    const second = await POST(batchRequest("203.0.113.4", [png("invoice.png")]))
+    expect(second.status).toBe(429)
+  })
+})
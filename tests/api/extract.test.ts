@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server"
+import sharp from "sharp"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { startMockInferenceServer, useMockInferenceServer, type MockInferenceServer } from "../helpers/mock-inference-server"
+
+type RouteHandler = (request: NextRequest) => Promise<Response>
+
+let mock: MockInferenceServer
+let POST: RouteHandler
+let image: Buffer
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer()
+  useMockInferenceServer(mock)
+  ;({ POST } = await import("@/app/api/ocr/extract/route"))
+
+  image = await sharp({ create: { width: 400, height: 200, channels: 3, background: "#ffffff" } }).png().toBuffer()
+}, 30_000)
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+function extractRequest(schema: object): NextRequest {
+  const formData = new FormData()
+  formData.append("image", new Blob([new Uint8Array(image)], { type: "image/png" }), "receipt.png")
+  formData.append("schema", JSON.stringify(schema))
+  return new NextRequest("http://localhost/api/ocr/extract", { method: "POST", body: formData })
+}
+
+describe("POST /api/ocr/extract", () => {
+  it("accepts null for an optional field the document does not have", async () => {
+    const schema = {
+      type: "object",
+      properties: { total: { type: "number" }, taxId: { type: "string" } },
+      required: ["total"],
+    }
+    await mock.script([{ content: JSON.stringify({ text: "Total 42", data: { total: 42, taxId: null } }) }])
+
+    const response = await POST(extractRequest(schema))
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body).toMatchObject({ data: { total: 42, taxId: null }, attempts: 1 })
+    expect(await mock.requests()).toHaveLength(1)
+  })
+})
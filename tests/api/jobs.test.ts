@@ -0,0 +1,113 @@
+import { NextRequest } from "next/server"
+import sharp from "sharp"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import type { Job } from "@/lib/jobs"
+import { startMockInferenceServer, useMockInferenceServer, type MockInferenceServer } from "../helpers/mock-inference-server"
+
+type SubmitHandler = (request: NextRequest) => Promise<Response>
+type PollHandler = (request: NextRequest, context: { params: { id: string } }) => Promise<Response>
+
+let mock: MockInferenceServer
+let POST: SubmitHandler
+let GET: PollHandler
+let image: Buffer
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer()
+
+  // Short enough for the timeout test, long enough for every other job to finish well within it
+  useMockInferenceServer(mock, { OCR_TIMEOUT_MS: "5000", OCR_JOB_TIMEOUT_MS: "1500" })
+  ;({ POST } = await import("@/app/api/jobs/route"))
+  ;({ GET } = await import("@/app/api/jobs/[id]/route"))
+
+  image = await sharp({ create: { width: 200, height: 100, channels: 3, background: "#ffffff" } }).png().toBuffer()
+}, 30_000)
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+function jobRequest(fields: Record<string, string> = {}): NextRequest {
+  const formData = new FormData()
+  formData.append("image", new Blob([new Uint8Array(image)], { type: "image/png" }), "scan.png")
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value)
+  }
+  return new NextRequest("http://localhost/api/jobs", { method: "POST", body: formData })
+}
+
+async function submit(): Promise<string> {
+  const response = await POST(jobRequest())
+  expect(response.status).toBe(202)
+  const body = await response.json()
+  expect(body.status).toBe("queued")
+  return body.id
+}
+
+async function poll(id: string): Promise<Response> {
+  return GET(new NextRequest(`http://localhost/api/jobs/${id}`), { params: { id } })
+}
+
+// Poll the way a client would until the job has finished
+async function pollUntilDone(id: string): Promise<Job> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job = (await (await poll(id)).json()) as Job
+    if (job.status === "completed" || job.status === "failed") {
+      return job
+    }
+    await new Promise((resolve) => setTimeout(resolve, 25))
+  }
+  throw new Error(`job ${id} did not finish`)
+}
+
+describe("/api/jobs", () => {
+  it("runs a submitted job and returns its result when polled", async () => {
+    await mock.script([{ content: "Hello from a job" }])
+
+    const job = await pollUntilDone(await submit())
+
+    expect(job.status).toBe("completed")
+    expect(job.progress).toEqual({ completedPages: 1, totalPages: 1 })
+    expect(job.result?.text).toBe("Hello from a job")
+    expect(job.error).toBeNull()
+  })
+
+  it("records the coded error of a failed job", async () => {
+    await mock.script([{ status: 401 }])
+
+    const job = await pollUntilDone(await submit())
+
+    expect(job.status).toBe("failed")
+    expect(job.result).toBeNull()
+    expect(job.error).toMatchObject({ code: "INVALID_API_KEY", retryable: false })
+  })
+
+  it("fails a job that runs past OCR_JOB_TIMEOUT_MS", async () => {
+    await mock.script([{ content: "Too late", delayMs: 3000 }])
+
+    const job = await pollUntilDone(await submit())
+
+    expect(job.status).toBe("failed")
+    expect(job.error).toMatchObject({ code: "JOB_TIMEOUT", details: { timeoutMs: 1500 } })
+  })
+
+  it("rejects /api/ocr fields that jobs do not support", async () => {
+    const response = await POST(jobRequest({ format: "layout", stream: "true" }))
+
+    expect(response.status).toBe(400)
+    const body = await response.json()
+    expect(body.error.code).toBe("INVALID_REQUEST")
+    expect(body.error.details).toEqual({ fields: ["format", "stream"] })
+  })
+
+  it("answers 404 for an unknown job", async () => {
+    const response = await poll("missing")
+
+    expect(response.status).toBe(404)
+    expect((await response.json()).error.code).toBe("NOT_FOUND")
+  })
+})
@@ -0,0 +1,181 @@
+import { NextRequest } from "next/server"
+import { PDFDocument } from "pdf-lib"
+import sharp from "sharp"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import type { ApiErrorBody } from "@/lib/errors"
+import { readSseEvents, type SseEvent } from "@/lib/sse"
+import { startMockInferenceServer, useMockInferenceServer, type MockInferenceServer } from "../helpers/mock-inference-server"
+
+type RouteHandler = (request: NextRequest) => Promise<Response>
+
+let mock: MockInferenceServer
+let POST: RouteHandler
+let image: Buffer
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer()
+
+  useMockInferenceServer(mock, { OCR_LAYOUT_MAX_TOKENS: "3000" })
+  ;({ POST } = await import("@/app/api/ocr/route"))
+
+  image = await sharp({ create: { width: 400, height: 200, channels: 3, background: "#ffffff" } })
+    .composite([{ input: { create: { width: 300, height: 40, channels: 3, background: "#000000" } }, left: 50, top: 80 }])
+    .png()
+    .toBuffer()
+}, 30_000)
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+function ocrRequest(fields: Record<string, string> = {}, file: Buffer | null = image, type = "image/png"): NextRequest {
+  const formData = new FormData()
+  if (file) {
+    formData.append("image", new Blob([new Uint8Array(file)], { type }), type === "application/pdf" ? "scan.pdf" : "scan.png")
+  }
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value)
+  }
+  return new NextRequest("http://localhost/api/ocr", { method: "POST", body: formData })
+}
+
+describe("POST /api/ocr", () => {
+  it("returns the recognized text", async () => {
+    await mock.script([{ content: "Hello from the mock" }])
+
+    const response = await POST(ocrRequest())
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.text).toBe("Hello from the mock")
+    expect(body.truncated).toBe(false)
+    expect(body.cache.status).toBe("off")
+    const [upstream] = await mock.requests()
+    expect(upstream.headers.authorization).toBe("Bearer test-key")
+  })
+
+  it("streams stages, tokens and the final result as Server-Sent Events", async () => {
+    await mock.script([{ content: "Streamed page text" }])
+
+    const response = await POST(ocrRequest({ stream: "true" }))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get("content-type")).toContain("text/event-stream")
+    const events: SseEvent[] = []
+    await readSseEvents(response.body!, (event) => events.push(event))
+
+    const names = events.map((event) => event.event)
+    expect(names.slice(0, 2)).toEqual(["preprocessing", "inference"])
+    expect(names.at(-1)).toBe("done")
+    const tokens = events.filter((event) => event.event === "token").map((event) => (event.data as { text: string }).text)
+    expect(tokens.length).toBeGreaterThan(1)
+    expect(tokens.join("")).toBe("Streamed page text")
+    expect((events.at(-1)!.data as { text: string }).text).toBe("Streamed page text")
+  })
+
+  it("returns word boxes for the layout format", async () => {
+    const layout = { blocks: [{ lines: [{ words: [{ text: "Total", bbox: [10, 20, 110, 60] }, { text: "42", bbox: [120, 20, 170, 60] }] }] }] }
+    await mock.script([{ content: JSON.stringify(layout) }])
+
+    const response = await POST(ocrRequest({ format: "layout" }))
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.text).toBe("Total 42")
+    const [page] = body.layout
+    expect(page).toMatchObject({ page: 1, width: 400, height: 200 })
+    expect(page.blocks[0].lines[0].words.map((word: { text: string }) => word.text)).toEqual(["Total", "42"])
+    const [upstream] = await mock.requests()
+    expect(upstream.body.max_tokens).toBe(3000)
+  })
+
+  it("continues a response cut off at the token limit", async () => {
+    await mock.script([{ content: "The first half", finishReason: "length" }, { content: " and the rest" }])
+
+    const response = await POST(ocrRequest())
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.text).toBe("The first half and the rest")
+    expect(body.truncated).toBe(false)
+    const requests = await mock.requests()
+    expect(requests).toHaveLength(2)
+    expect(requests[1].body.messages).toContainEqual({ role: "assistant", content: "The first half" })
+  })
+
+  it("recognizes every page of a PDF", async () => {
+    const pdfDocument = await PDFDocument.create()
+    pdfDocument.addPage([200, 100])
+    pdfDocument.addPage([200, 100])
+    const pdf = Buffer.from(await pdfDocument.save())
+    await mock.script([{ content: "First page" }, { content: "Second page" }])
+
+    const response = await POST(ocrRequest({ dpi: "72" }, pdf, "application/pdf"))
+
+    expect(response.status).toBe(200)
+    const body = await response.json()
+    expect(body.text).toBe("First page\n\nSecond page")
+    expect(body.pages.map((page: { page: number; text: string }) => [page.page, page.text])).toEqual([
+      [1, "First page"],
+      [2, "Second page"],
+    ])
+    expect(await mock.requests()).toHaveLength(2)
+  })
+
+  it("rejects a request without a file", async () => {
+    const response = await POST(ocrRequest({}, null))
+
+    expect(response.status).toBe(400)
+    const body: ApiErrorBody = await response.json()
+    expect(body.error.code).toBe("INVALID_REQUEST")
+    expect(await mock.requests()).toHaveLength(0)
+  })
+
+  it("reports a rejected upstream key as INVALID_API_KEY without retrying", async () => {
+    await mock.script([{ status: 401 }])
+
+    const response = await POST(ocrRequest())
+
+    expect(response.status).toBe(401)
+    const body: ApiErrorBody = await response.json()
+    expect(body.error).toMatchObject({ code: "INVALID_API_KEY", retryable: false })
+    expect(await mock.requests()).toHaveLength(1)
+  })
+
+  it("retries upstream server errors and then reports UPSTREAM_UNAVAILABLE", async () => {
+    await mock.script([{ status: 500 }, { status: 500 }])
+
+    const response = await POST(ocrRequest())
+
+    expect(response.status).toBe(503)
+    const body: ApiErrorBody = await response.json()
+    expect(body.error).toMatchObject({ code: "UPSTREAM_UNAVAILABLE", retryable: true })
+    expect(await mock.requests()).toHaveLength(2)
+  })
+
+  it("reports an upstream timeout as UPSTREAM_TIMEOUT", async () => {
+    await mock.script([{ timeout: true }, { timeout: true }])
+
+    const response = await POST(ocrRequest())
+
+    expect(response.status).toBe(504)
+    const body: ApiErrorBody = await response.json()
+    expect(body.error.code).toBe("UPSTREAM_TIMEOUT")
+  }, 15_000)
+
+  it("sends a coded error event when a stream fails", async () => {
+    await mock.script([{ status: 401 }])
+
+    const response = await POST(ocrRequest({ stream: "true" }))
+
+    const events: SseEvent[] = []
+    await readSseEvents(response.body!, (event) => events.push(event))
+    const last = events.at(-1)!
+    expect(last.event).toBe("error")
+    expect((last.data as ApiErrorBody).error.code).toBe("INVALID_API_KEY")
+  })
+})
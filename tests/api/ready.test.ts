@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server"
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest"
+import { createStaticClientKeyStore, hashClientKey, setClientKeyStore } from "@/lib/client-keys"
+import type { ReadinessReport } from "@/lib/readiness"
+import { startMockInferenceServer, useMockInferenceServer, type MockInferenceServer } from "../helpers/mock-inference-server"
+
+const KEY = "ocr_test-key-for-readiness-test"
+
+let mock: MockInferenceServer
+let GET: (request: NextRequest) => Promise<Response>
+
+beforeAll(async () => {
+  mock = await startMockInferenceServer()
+
+  useMockInferenceServer(mock, { OCR_CLIENT_KEYS: "required" })
+  setClientKeyStore(
+    createStaticClientKeyStore([
+      { id: "k1", name: "Monitor", hash: hashClientKey(KEY), prefix: KEY.slice(0, 12), createdAt: "", revokedAt: null },
+    ]),
+  )
+  ;({ GET } = await import("@/app/api/ready/route"))
+}, 30_000)
+
+afterAll(async () => {
+  await mock?.stop()
+})
+
+beforeEach(async () => {
+  await mock.reset()
+})
+
+const readyRequest = (query = "", headers: Record<string, string> = {}) =>
+  new NextRequest(`http://localhost/api/ready${query}`, { headers })
+
+describe("GET /api/ready", () => {
+  it("answers without a client key and does not call the model", async () => {
+    const response = await GET(readyRequest())
+
+    expect(response.status).toBe(200)
+    const report = (await response.json()) as ReadinessReport
+    expect(report.checks.find((check) => check.name === "upstream")?.status).toBe("skip")
+    expect(await mock.requests()).toHaveLength(0)
+  })
+
+  it("only probes the model for callers with a client key", async () => {
+    const anonymous = await GET(readyRequest("?probe=upstream"))
+    expect(anonymous.status).toBe(401)
+    expect((await anonymous.json()).error.code).toBe("MISSING_CLIENT_KEY")
+    expect(await mock.requests()).toHaveLength(0)
+
+    await mock.script([{ content: "ok" }])
+    const response = await GET(readyRequest("?probe=upstream", { authorization: `Bearer ${KEY}` }))
+
+    expect(response.status).toBe(200)
+    const report = (await response.json()) as ReadinessReport
+    expect(report.checks.find((check) => check.name === "upstream")?.status).toBe("pass")
+    expect(await mock.requests()).toHaveLength(1)
+  })
+})
@@ -0,0 +1,70 @@
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest"
+import { createMemoryCache, resultCacheKey, setResultCache, withResultCache, type RecognitionSettings } from "@/lib/cache"
+import { NO_TEXT_FOUND, type OcrResult } from "@/lib/ocr"
+import { NO_CORRECTIONS } from "@/lib/orientation"
+
+const upload = Buffer.from("scan")
+const settings: RecognitionSettings = { format: "text", preprocessing: [], tiling: "off", dpi: 150 }
+const key = resultCacheKey(upload, settings)
+
+const textResult: OcrResult = { text: "Total 42", truncated: false }
+
+describe("resultCacheKey", () => {
+  it("keeps text and layout results apart", () => {
+    expect(resultCacheKey(upload, { ...settings, format: "layout" })).not.toBe(key)
+  })
+
+  it("shares one entry between the formats rendered from the layout", () => {
+    const layoutKey = resultCacheKey(upload, { ...settings, format: "layout" })
+    expect(resultCacheKey(upload, { ...settings, format: "pdf" })).toBe(layoutKey)
+    expect(resultCacheKey(upload, { ...settings, format: "alto" })).toBe(layoutKey)
+  })
+})
+
+describe("withResultCache", () => {
+  beforeEach(() => {
+    setResultCache(createMemoryCache())
+  })
+
+  afterAll(() => {
+    setResultCache(null)
+  })
+
+  it("answers a repeated request from the cache", async () => {
+    await withResultCache(key, "use", async () => textResult)
+    const recognize = vi.fn(async () => textResult)
+
+    const { result, cache } = await withResultCache(key, "use", recognize)
+
+    expect(recognize).not.toHaveBeenCalled()
+    expect(cache.status).toBe("hit")
+    expect(result).toEqual(textResult)
+  })
+
+  it("does not cache truncated results", async () => {
+    const first = await withResultCache(key, "use", async () => ({ text: "Total", truncated: true }))
+    const recognize = vi.fn(async () => textResult)
+
+    const second = await withResultCache(key, "use", recognize)
+
+    expect(first.cache.key).toBeNull()
+    expect(recognize).toHaveBeenCalledOnce()
+    expect(second.cache.status).toBe("miss")
+  })
+
+  it("does not cache a page the model found no text in", async () => {
+    await withResultCache(key, "use", async () => ({
+      text: `Total 42\n\n${NO_TEXT_FOUND}`,
+      truncated: false,
+      pages: [
+        { page: 1, text: "Total 42", corrections: NO_CORRECTIONS, truncated: false },
+        { page: 2, text: NO_TEXT_FOUND, corrections: NO_CORRECTIONS, truncated: false },
+      ],
+    }))
+    const recognize = vi.fn(async () => textResult)
+
+    await withResultCache(key, "use", recognize)
+
+    expect(recognize).toHaveBeenCalledOnce()
+  })
+})
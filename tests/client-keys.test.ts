@@ -0,0 +1,80 @@
+import { mkdtemp, rm } from "fs/promises"
+import os from "os"
+import path from "path"
+import { afterAll, beforeEach, describe, expect, it } from "vitest"
+import {
+  authenticateClient,
+  createFileClientKeyStore,
+  createStaticClientKeyStore,
+  issueClientKey,
+  revokeClientKey,
+  setClientKeyStore,
+  type ClientKeyConfig,
+} from "@/lib/client-keys"
+import { loadServerConfig } from "@/lib/config"
+
+const optional: ClientKeyConfig = { mode: "optional", file: "unused", records: null }
+const required: ClientKeyConfig = { ...optional, mode: "required" }
+
+const requestWith = (authorization?: string) =>
+  new Request("http://localhost/api/ocr", { headers: authorization ? { authorization } : {} })
+
+let directory: string
+let file: string
+
+beforeEach(async () => {
+  directory = await mkdtemp(path.join(os.tmpdir(), "client-keys-"))
+  file = path.join(directory, "keys.json")
+  setClientKeyStore(createFileClientKeyStore(file))
+})
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true })
+})
+
+describe("authenticateClient", () => {
+  it("identifies the caller of an issued key", async () => {
+    const { key, record } = await issueClientKey("Acme")
+
+    expect(key).toMatch(/^ocr_[\w-]{32}$/)
+    expect(await authenticateClient(requestWith(`Bearer ${key}`), required)).toEqual({ id: record.id, name: "Acme" })
+  })
+
+  it("rejects unknown keys and malformed headers in either mode", async () => {
+    await expect(authenticateClient(requestWith("Bearer ocr_unknown"), optional)).rejects.toMatchObject({
+      code: "INVALID_CLIENT_KEY",
+    })
+    await expect(authenticateClient(requestWith("Basic dXNlcjpwYXNz"), optional)).rejects.toMatchObject({
+      code: "INVALID_CLIENT_KEY",
+    })
+  })
+
+  it("requires a key only in required mode", async () => {
+    expect(await authenticateClient(requestWith(), optional)).toBeNull()
+    await expect(authenticateClient(requestWith(), required)).rejects.toMatchObject({ code: "MISSING_CLIENT_KEY" })
+  })
+
+  it("rejects a key revoked by another process on the next request", async () => {
+    const { key, record } = await issueClientKey("Acme")
+    await authenticateClient(requestWith(`Bearer ${key}`), required)
+
+    // The client-keys script writes the file through its own store
+    await revokeClientKey(record.id, createFileClientKeyStore(file))
+
+    await expect(authenticateClient(requestWith(`Bearer ${key}`), required)).rejects.toMatchObject({
+      code: "INVALID_CLIENT_KEY",
+      details: { revokedAt: expect.any(String) },
+    })
+  })
+
+  it("accepts keys exported into OCR_CLIENT_KEYS_JSON", async () => {
+    const { key } = await issueClientKey("Acme")
+    const exported = JSON.stringify(await createFileClientKeyStore(file).list())
+    const { records } = loadServerConfig({ NODE_ENV: "test", OCR_CLIENT_KEYS_JSON: exported }).clientKeys
+
+    setClientKeyStore(createStaticClientKeyStore(records ?? []))
+
+    expect(await authenticateClient(requestWith(`Bearer ${key}`), required)).toMatchObject({ name: "Acme" })
+    expect(() => loadServerConfig({ NODE_ENV: "test", OCR_CLIENT_KEYS_JSON: '[{"id":"1"}]' })).toThrow(/OCR_CLIENT_KEYS_JSON/)
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_CLIENT_KEYS_FILE,
+  DEFAULT_IP_POLICY,
+  DEFAULT_MAX_UPLOAD_BYTES,
+  DEFAULT_MODEL,
+  loadLoggerConfig,
+  loadServerConfig,
+} from "@/lib/config"
+
+// loadServerConfig() reads only what it is given, so each test builds its own environment
+const env = (variables: Record<string, string> = {}): NodeJS.ProcessEnv => ({ NODE_ENV: "test", ...variables })
+
+// The validation messages of an environment that must fail
+function issuesOf(variables: Record<string, string>): string[] {
+  try {
+    loadServerConfig(env(variables))
+  } catch (error) {
+    expect(error).toMatchObject({ code: "PROVIDER_NOT_CONFIGURED" })
+    return (error as { details: { issues: string[] } }).details.issues
+  }
+  throw new Error("the configuration was accepted")
+}
+
+describe("loadServerConfig", () => {
+  it("fills in the defaults for an empty environment", () => {
+    const config = loadServerConfig(env())
+    expect(config.provider).toMatchObject({ provider: "gravix", model: DEFAULT_MODEL, temperature: 0, apiKey: undefined })
+    expect(config.maxUploadBytes).toBe(DEFAULT_MAX_UPLOAD_BYTES)
+    expect(config.rateLimit).toMatchObject({ backend: "memory", ip: DEFAULT_IP_POLICY, trustedProxyHops: 1 })
+    expect(config.clientKeys).toEqual({ mode: "optional", file: DEFAULT_CLIENT_KEYS_FILE, records: null })
+    expect(config.allowedOrigins).toEqual([])
+    expect(config.publicOrigin).toBeNull()
+  })
+
+  it("treats blank variables as unset", () => {
+    expect(loadServerConfig(env({ OCR_MAX_TOKENS: " ", OCR_CACHE: "", OCR_PUBLIC_ORIGIN: "" }))).toEqual(loadServerConfig(env()))
+  })
+
+  it("parses numbers, lists and origins", () => {
+    const config = loadServerConfig(
+      env({
+        OCR_TEMPERATURE: "0.5",
+        OCR_MAX_UPLOAD_BYTES: "2048",
+        OCR_RATE_LIMIT_IP_DAILY_QUOTA: "0",
+        OCR_ALLOWED_ORIGINS: " https://a.example/ , https://b.example:8443",
+        OCR_PUBLIC_ORIGIN: "https://ocr.example.com/",
+      }),
+    )
+    expect(config.provider.temperature).toBe(0.5)
+    expect(config.maxUploadBytes).toBe(2048)
+    expect(config.rateLimit.ip.dailyQuota).toBe(0)
+    expect(config.allowedOrigins).toEqual(["https://a.example", "https://b.example:8443"])
+    expect(config.publicOrigin).toBe("https://ocr.example.com")
+  })
+
+  it("takes the gravix key from GRAVIXLAYER_API_KEY, but no other provider's", () => {
+    expect(loadServerConfig(env({ GRAVIXLAYER_API_KEY: "gx-key" })).provider.apiKey).toBe("gx-key")
+    const other = loadServerConfig(
+      env({ GRAVIXLAYER_API_KEY: "gx-key", OCR_PROVIDER: "openai-compatible", OCR_BASE_URL: "http://localhost:8000/v1" }),
+    )
+    expect(other.provider.apiKey).toBeUndefined()
+  })
+
+  it("reports every invalid variable at once", () => {
+    expect(
+      issuesOf({
+        OCR_MAX_TOKENS: "lots",
+        OCR_TEMPERATURE: "3",
+        OCR_CACHE: "redis",
+        OCR_BASE_URL: "inference server",
+        OCR_ALLOWED_ORIGINS: "partner.example",
+      }),
+    ).toEqual([
+      'OCR_BASE_URL must be a URL, e.g. http://localhost:8000/v1, got "inference server"',
+      'OCR_TEMPERATURE must be between 0 and 2, got "3"',
+      'OCR_MAX_TOKENS must be a number, got "lots"',
+      'OCR_CACHE must be one of: memory, file, off, got "redis"',
+      'OCR_ALLOWED_ORIGINS must be a comma-separated list of origins such as https://app.example.com, or *, got "partner.example"',
+    ])
+  })
+
+  it("rejects whole numbers below their minimum", () => {
+    expect(issuesOf({ OCR_MAX_BATCH_FILES: "0", OCR_MAX_RETRIES: "1.5" })).toEqual([
+      'OCR_MAX_RETRIES must be a whole number, got "1.5"',
+      'OCR_MAX_BATCH_FILES must be at least 1, got "0"',
+    ])
+  })
+})
+
+describe("loadLoggerConfig", () => {
+  it("never fails, falling back to the info level", () => {
+    expect(loadLoggerConfig(env({ OCR_LOG_LEVEL: "loud" }))).toEqual({ level: "info", logContent: false })
+    expect(loadLoggerConfig(env({ OCR_LOG_LEVEL: "DEBUG", OCR_LOG_CONTENT: "true" }))).toEqual({ level: "debug", logContent: true })
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { corsHeaders, isOriginAllowed } from "@/lib/cors"
+
+const requestFrom = (origin: string, headers: Record<string, string> = {}) =>
+  new Request("http://localhost/api/ocr", { headers: { origin, ...headers } })
+
+describe("isOriginAllowed", () => {
+  it("allows the configured public origin and rejects every other", () => {
+    expect(isOriginAllowed(requestFrom("https://ocr.example.com"), [], "https://ocr.example.com")).toBe(true)
+    expect(isOriginAllowed(requestFrom("https://evil.example", { host: "evil.example" }), [], "https://ocr.example.com")).toBe(false)
+  })
+
+  it("does not take the app's origin from X-Forwarded-Host", () => {
+    const request = requestFrom("https://evil.example", { host: "ocr.example.com", "x-forwarded-host": "evil.example" })
+    expect(isOriginAllowed(request, [], null)).toBe(false)
+    expect(isOriginAllowed(requestFrom("https://ocr.example.com", { host: "ocr.example.com" }), [], null)).toBe(true)
+  })
+
+  it("allows listed origins with CORS headers", () => {
+    const request = requestFrom("https://partner.example")
+    expect(isOriginAllowed(request, ["https://partner.example"], "https://ocr.example.com")).toBe(true)
+    expect(corsHeaders(request, ["https://partner.example"], "https://ocr.example.com")).toMatchObject({
+      "Access-Control-Allow-Origin": "https://partner.example",
+    })
+  })
+})
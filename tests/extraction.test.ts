@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { InvalidSchemaError, MAX_SCHEMA_DEPTH, MAX_SCHEMA_FIELDS, jsonSchemaToZod } from "@/lib/extraction"
+import { invoiceSchema, receiptSchema } from "@/lib/extraction-schemas"
+
+// An object schema with `levels` objects nested inside it under the key "child"
+function nestedSchema(levels: number): object {
+  let schema: object = { type: "string" }
+  for (let level = 0; level < levels; level++) {
+    schema = { type: "object", properties: { child: schema } }
+  }
+  return schema
+}
+
+describe("jsonSchemaToZod", () => {
+  it("converts nested objects up to the depth limit", () => {
+    expect(() => jsonSchemaToZod(nestedSchema(MAX_SCHEMA_DEPTH))).not.toThrow()
+  })
+
+  it("rejects schemas nested deeper than the limit", () => {
+    expect(() => jsonSchemaToZod(nestedSchema(MAX_SCHEMA_DEPTH + 1))).toThrow(InvalidSchemaError)
+  })
+
+  it("rejects schemas with too many properties", () => {
+    const properties = Object.fromEntries(Array.from({ length: MAX_SCHEMA_FIELDS + 1 }, (_, index) => [`field${index}`, { type: "string" }]))
+    expect(() => jsonSchemaToZod({ type: "object", properties })).toThrow(/at most 200 properties/)
+  })
+
+  it("does not enforce pattern", () => {
+    const validator = jsonSchemaToZod({ type: "object", properties: { code: { type: "string", pattern: "^(a+)+$" } } })
+    expect(validator.safeParse({ code: `${"a".repeat(40)}!` }).success).toBe(true)
+  })
+})
+
+describe("built-in schemas", () => {
+  it("accept documents without line items", () => {
+    const nullInvoice = Object.fromEntries(Object.keys(invoiceSchema.shape).map((key) => [key, null]))
+    const nullReceipt = Object.fromEntries(Object.keys(receiptSchema.shape).map((key) => [key, null]))
+    expect(invoiceSchema.safeParse(nullInvoice).success).toBe(true)
+    expect(receiptSchema.safeParse(nullReceipt).success).toBe(true)
+  })
+})
@@ -0,0 +1,69 @@
+import type { OcrLayoutPage } from "@/lib/layout"
+
+// Two pages of recognized layout: a heading and a paragraph with characters that need escaping
+// (including a control character the model might emit), and a page with a single word
+export const LAYOUT_FIXTURE: OcrLayoutPage[] = [
+  {
+    page: 1,
+    width: 1200,
+    height: 1600,
+    blocks: [
+      {
+        text: "Invoice #42",
+        bbox: { x: 100, y: 80, width: 400, height: 60 },
+        lines: [
+          {
+            text: "Invoice #42",
+            bbox: { x: 100, y: 80, width: 400, height: 60 },
+            words: [
+              { text: "Invoice", bbox: { x: 100, y: 80, width: 250, height: 60 } },
+              { text: "#42", bbox: { x: 370, y: 80, width: 130, height: 60 } },
+            ],
+          },
+        ],
+      },
+      {
+        text: "Smith & Sons <Ltd>\n\"Quoted\" it's\u0007",
+        bbox: { x: 100, y: 200, width: 600, height: 110 },
+        lines: [
+          {
+            text: "Smith & Sons <Ltd>",
+            bbox: { x: 100, y: 200, width: 600, height: 50 },
+            words: [
+              { text: "Smith", bbox: { x: 100, y: 200, width: 150, height: 50 } },
+              { text: "&", bbox: { x: 265, y: 200, width: 30, height: 50 } },
+              { text: "Sons", bbox: { x: 310, y: 200, width: 140, height: 50 } },
+              { text: "<Ltd>", bbox: { x: 465, y: 200, width: 235, height: 50 } },
+            ],
+          },
+          {
+            text: "\"Quoted\" it's\u0007",
+            bbox: { x: 100, y: 260, width: 420, height: 50 },
+            words: [
+              { text: "\"Quoted\"", bbox: { x: 100, y: 260, width: 220, height: 50 } },
+              { text: "it's\u0007", bbox: { x: 335, y: 260, width: 185, height: 50 } },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    page: 2,
+    width: 1200,
+    height: 1600,
+    blocks: [
+      {
+        text: "Total",
+        bbox: { x: 900, y: 1400, width: 180, height: 55 },
+        lines: [
+          {
+            text: "Total",
+            bbox: { x: 900, y: 1400, width: 180, height: 55 },
+            words: [{ text: "Total", bbox: { x: 900, y: 1400, width: 180, height: 55 } }],
+          },
+        ],
+      },
+    ],
+  },
+]
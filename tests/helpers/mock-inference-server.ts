@@ -0,0 +1,104 @@
+import { spawn, type ChildProcess } from "node:child_process"
+import { once } from "node:events"
+import net from "node:net"
+import path from "node:path"
+
+// A step of the mock server's script; see scripts/mock-inference-server.mjs
+export interface MockStep {
+  content?: string
+  status?: number
+  retryAfter?: number
+  timeout?: boolean
+  delayMs?: number
+  finishReason?: string
+}
+
+export interface MockRequest {
+  headers: Record<string, string>
+  body: { messages: { role: string; content: unknown }[]; stream?: boolean; max_tokens?: number }
+}
+
+export interface MockInferenceServer {
+  // The OpenAI-compatible base URL, for OCR_BASE_URL
+  baseURL: string
+  script(steps: MockStep[]): Promise<void>
+  requests(): Promise<MockRequest[]>
+  reset(): Promise<void>
+  stop(): Promise<void>
+}
+
+async function freePort(): Promise<number> {
+  const server = net.createServer().listen(0, "127.0.0.1")
+  await once(server, "listening")
+  const { port } = server.address() as net.AddressInfo
+  server.close()
+  await once(server, "close")
+  return port
+}
+
+// Start scripts/mock-inference-server.mjs on a free port and wait until it answers
+export async function startMockInferenceServer(): Promise<MockInferenceServer> {
+  const port = await freePort()
+  const origin = `http://127.0.0.1:${port}`
+  const child: ChildProcess = spawn(process.execPath, [path.join(process.cwd(), "scripts/mock-inference-server.mjs")], {
+    env: { ...process.env, MOCK_PORT: String(port) },
+    stdio: "ignore",
+  })
+
+  const control = async (method: string, controlPath: string, body?: unknown) => {
+    const response = await fetch(`${origin}${controlPath}`, { method, body: body === undefined ? undefined : JSON.stringify(body) })
+    if (!response.ok) {
+      throw new Error(`mock server answered ${response.status} to ${method} ${controlPath}`)
+    }
+    return response.json()
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await control("POST", "/__mock/reset")
+      break
+    } catch (error) {
+      if (attempt >= 50 || child.exitCode !== null) {
+        child.kill()
+        throw error
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100))
+    }
+  }
+
+  return {
+    baseURL: `${origin}/v1`,
+    script: async (steps) => {
+      await control("POST", "/__mock/script", steps)
+    },
+    requests: () => control("GET", "/__mock/requests"),
+    reset: async () => {
+      await control("POST", "/__mock/reset")
+    },
+    stop: async () => {
+      if (child.exitCode === null) {
+        child.kill()
+        await once(child, "exit")
+      }
+    },
+  }
+}
+
+// Environment for route handlers that talk to `mock`. The configuration is read once, so it has to be in
+// place before a route is first imported.
+export function useMockInferenceServer(mock: MockInferenceServer, overrides: Record<string, string> = {}) {
+  Object.assign(process.env, {
+    OCR_PROVIDER: "openai-compatible",
+    OCR_BASE_URL: mock.baseURL,
+    OCR_API_KEY: "test-key",
+    OCR_MAX_RETRIES: "1",
+    OCR_RETRY_BASE_DELAY_MS: "1",
+    OCR_RETRY_MAX_DELAY_MS: "5",
+    OCR_BREAKER_FAILURE_THRESHOLD: "1000",
+    OCR_TIMEOUT_MS: "1000",
+    OCR_CACHE: "off",
+    OCR_RATE_LIMIT: "off",
+    OCR_LOG_LEVEL: "error",
+    ...overrides,
+  })
+}
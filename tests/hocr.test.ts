@@ -0,0 +1,60 @@
+import { validateXML } from "xmllint-wasm"
+import { describe, expect, it } from "vitest"
+import { toHocr } from "@/lib/hocr"
+import type { BoundingBox } from "@/lib/layout"
+import { LAYOUT_FIXTURE } from "./fixtures/layout"
+
+interface HocrElement {
+  tag: string
+  className: string
+  title: string
+  text: string
+}
+
+// Canonical XML (C14N) writes every attribute in a fixed order and form, so the ocr_* elements can be
+// read back with a pattern once the document is known to be well-formed
+async function parseHocr(hocr: string): Promise<HocrElement[]> {
+  const result = await validateXML({ xml: { fileName: "document.hocr", contents: hocr }, normalization: "c14n" })
+  expect(result.errors).toEqual([])
+  const elements: HocrElement[] = []
+  for (const match of result.normalized.matchAll(/<(\w+) class="(ocrx?_\w+)" id="[^"]*" title="([^"]*)">([^<]*)/g)) {
+    elements.push({ tag: match[1], className: match[2], title: match[3], text: match[4] })
+  }
+  return elements
+}
+
+const bbox = (box: BoundingBox) => `bbox ${box.x} ${box.y} ${box.x + box.width} ${box.y + box.height}`
+
+describe("toHocr", () => {
+  it("produces well-formed XHTML", async () => {
+    const result = await validateXML({ xml: { fileName: "document.hocr", contents: toHocr(LAYOUT_FIXTURE, "scan.pdf") }, normalization: "c14n" })
+    expect(result.errors).toEqual([])
+    expect(result.normalized).toContain('<html xmlns="http://www.w3.org/1999/xhtml"')
+  })
+
+  it("writes ocr_page, ocr_line and ocrx_word elements with bbox titles", async () => {
+    const elements = await parseHocr(toHocr(LAYOUT_FIXTURE, "scan.pdf"))
+    const ofClass = (className: string) => elements.filter((element) => element.className === className)
+
+    expect(ofClass("ocr_page").map((element) => element.title)).toEqual([
+      "image &quot;scan.pdf&quot;; bbox 0 0 1200 1600; ppageno 0",
+      "image &quot;scan.pdf&quot;; bbox 0 0 1200 1600; ppageno 1",
+    ])
+
+    const lines = LAYOUT_FIXTURE.flatMap((page) => page.blocks.flatMap((block) => block.lines))
+    expect(ofClass("ocr_line").map((element) => element.title)).toEqual(lines.map((line) => bbox(line.bbox)))
+
+    const words = lines.flatMap((line) => line.words)
+    const wordElements = ofClass("ocrx_word")
+    expect(wordElements.map((element) => element.tag)).toEqual(words.map(() => "span"))
+    expect(wordElements.map((element) => element.title)).toEqual(words.map((word) => bbox(word.bbox)))
+  })
+
+  it("escapes word text and drops control characters", async () => {
+    const hocr = toHocr(LAYOUT_FIXTURE, "scan.pdf")
+    expect(hocr).not.toMatch(/[\x00-\x08\x0B\x0C\x0E-\x1F]/)
+
+    const words = (await parseHocr(hocr)).filter((element) => element.className === "ocrx_word")
+    expect(words.map((word) => word.text)).toEqual(["Invoice", "#42", "Smith", "&amp;", "Sons", "&lt;Ltd&gt;", '"Quoted"', "it's", "Total"])
+  })
+})
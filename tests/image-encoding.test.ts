@@ -0,0 +1,52 @@
+import sharp from "sharp"
+import { describe, expect, it } from "vitest"
+import { encodeForUpload } from "@/lib/image-encoding"
+
+const blank = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: "#ffffff" } }).png().toBuffer()
+
+// Faint film grain, which PNG compresses poorly and JPEG well: a stand-in for a photographed page
+function grain(width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3)
+  let seed = 42
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) >>> 0
+    pixels[i] = 120 + (seed >>> 28)
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer()
+}
+
+const decodedBytes = (dataUrl: string) => Buffer.from(dataUrl.split(",")[1], "base64").length
+
+describe("encodeForUpload", () => {
+  it("keeps a small image as lossless PNG at its own size", async () => {
+    const encoded = await encodeForUpload(await blank(640, 480))
+    expect(encoded).toMatchObject({ format: "png", quality: null, width: 640, height: 480 })
+    expect(encoded.dataUrl.startsWith("data:image/png;base64,")).toBe(true)
+    expect(decodedBytes(encoded.dataUrl)).toBe(encoded.bytes)
+  })
+
+  it("shrinks images to the longest side models read", async () => {
+    const encoded = await encodeForUpload(await blank(4000, 1000), { maxDimension: 2048 })
+    expect(encoded).toMatchObject({ format: "png", width: 2048, height: 512 })
+  })
+
+  it("falls back to JPEG at falling quality before it shrinks the image", async () => {
+    const photo = await grain(400, 300)
+    const png = await encodeForUpload(photo)
+    expect(png.format).toBe("png")
+
+    const jpeg = await encodeForUpload(photo, { byteBudget: png.bytes - 1 })
+    expect(jpeg).toMatchObject({ format: "jpeg", quality: 90, width: 400, height: 300 })
+
+    const lowerQuality = await encodeForUpload(photo, { byteBudget: jpeg.bytes - 1 })
+    expect(lowerQuality).toMatchObject({ format: "jpeg", width: 400, height: 300 })
+    expect(lowerQuality.quality).toBeLessThan(90)
+    expect(lowerQuality.bytes).toBeLessThan(jpeg.bytes)
+  })
+
+  it("stops shrinking at a legible size and sends the smallest attempt when nothing fits", async () => {
+    const encoded = await encodeForUpload(await grain(1500, 1000), { byteBudget: 1 })
+    expect(encoded).toMatchObject({ format: "jpeg", quality: 66, width: 1200, height: 800 })
+  }, 30_000)
+})
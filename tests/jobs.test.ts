@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createMemoryJobStore, type Job } from "@/lib/jobs"
+
+const HOUR_MS = 60 * 60 * 1000
+
+function newJob(id: string): Job {
+  const now = new Date().toISOString()
+  return {
+    id,
+    status: "queued",
+    progress: { completedPages: 0, totalPages: null },
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+describe("createMemoryJobStore", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("evicts a job left processing once it has not been updated for the TTL", async () => {
+    const store = createMemoryJobStore(HOUR_MS)
+    await store.create(newJob("stuck"))
+    await store.update("stuck", { status: "processing" })
+
+    vi.advanceTimersByTime(HOUR_MS + 1)
+    await store.create(newJob("next"))
+
+    expect(await store.get("stuck")).toBeNull()
+    expect(await store.get("next")).not.toBeNull()
+  })
+
+  it("keeps a running job that is still being updated", async () => {
+    const store = createMemoryJobStore(HOUR_MS)
+    await store.create(newJob("running"))
+
+    vi.advanceTimersByTime(HOUR_MS - 1000)
+    await store.update("running", { progress: { completedPages: 1, totalPages: 2 } })
+    vi.advanceTimersByTime(2000)
+    await store.create(newJob("next"))
+
+    expect(await store.get("running")).toMatchObject({ progress: { completedPages: 1, totalPages: 2 } })
+  })
+})
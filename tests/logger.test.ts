@@ -0,0 +1,53 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest"
+import { LOG_LEVELS, logger } from "@/lib/logger"
+
+const UPSTREAM_KEY = "sk-upstream-secret-0123456789"
+const CLIENT_KEY = "ocr_Q2xpZW50S2V5Rm9yTG9nZ2VyVGVzdHM"
+const BASE64_PAYLOAD = Buffer.from("a scanned page that must stay private").toString("base64")
+const DATA_URL = `data:image/png;base64,${BASE64_PAYLOAD}`
+
+beforeAll(() => {
+  // Read once, on the first log line
+  process.env.OCR_LOG_LEVEL = "debug"
+  process.env.OCR_API_KEY = UPSTREAM_KEY
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+// Everything written to the console while `log` runs
+function captureOutput(log: () => void): string {
+  const lines: string[] = []
+  vi.spyOn(console, "log").mockImplementation((line) => lines.push(String(line)))
+  vi.spyOn(console, "error").mockImplementation((line) => lines.push(String(line)))
+  log()
+  return lines.join("\n")
+}
+
+describe("logger", () => {
+  it.each(LOG_LEVELS)("keeps credentials and image data out of %s lines", (level) => {
+    const output = captureOutput(() =>
+      logger[level](`calling upstream with ${UPSTREAM_KEY} for ${CLIENT_KEY}`, {
+        authorization: `Bearer ${CLIENT_KEY}`,
+        apiKey: UPSTREAM_KEY,
+        headers: { "x-api-key": UPSTREAM_KEY, forwarded: `Bearer ${CLIENT_KEY}` },
+        clientKey: CLIENT_KEY,
+        messages: [{ role: "user", image_url: { url: DATA_URL } }],
+        error: new Error(`401 Incorrect API key provided: ${UPSTREAM_KEY}`, { cause: { upload: DATA_URL } }),
+      }),
+    )
+
+    expect(output).not.toBe("")
+    expect(output).not.toContain(UPSTREAM_KEY)
+    expect(output).not.toContain(CLIENT_KEY)
+    expect(output).not.toContain(BASE64_PAYLOAD)
+    expect(output).toContain("data:image/png;base64,[...]")
+  })
+
+  it("writes content fields as their size only", () => {
+    const output = captureOutput(() => logger.info("recognized", { text: "Invoice 42", dataUrl: DATA_URL }))
+
+    expect(JSON.parse(output)).toMatchObject({ text: "[10 characters]", dataUrl: `[${DATA_URL.length} characters]` })
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import { createCounter, createHistogram, measureDuration, renderMetrics, routeLabel } from "@/lib/metrics"
+
+// The lines of one metric in the rendered output; other tests and modules may have recorded their own
+const linesOf = (name: string) =>
+  renderMetrics()
+    .split("\n")
+    .filter((line) => [name, `# HELP ${name} `, `# TYPE ${name} `].some((prefix) => line.startsWith(prefix)))
+
+describe("renderMetrics", () => {
+  it("writes counters with their help, type and one line per label set", () => {
+    const requests = createCounter("test_requests_total", "Requests handled")
+    requests.inc({ route: "/api/ocr", status: "200" })
+    requests.inc({ status: "200", route: "/api/ocr" }, 2)
+    requests.inc({ route: 'say "hi"\n', status: "500" })
+
+    expect(linesOf("test_requests_total")).toEqual([
+      "# HELP test_requests_total Requests handled",
+      "# TYPE test_requests_total counter",
+      'test_requests_total{route="/api/ocr",status="200"} 3',
+      'test_requests_total{route="say \\"hi\\"\\n",status="500"} 1',
+    ])
+  })
+
+  it("writes histograms as cumulative buckets with a sum and a count", () => {
+    const duration = createHistogram("test_duration_seconds", "How long it took", [0.1, 1])
+    for (const value of [0.05, 0.5, 0.7, 3]) {
+      duration.observe(value)
+    }
+
+    expect(linesOf("test_duration_seconds")).toEqual([
+      "# HELP test_duration_seconds How long it took",
+      "# TYPE test_duration_seconds histogram",
+      'test_duration_seconds_bucket{le="0.1"} 1',
+      'test_duration_seconds_bucket{le="1"} 3',
+      'test_duration_seconds_bucket{le="+Inf"} 4',
+      "test_duration_seconds_sum 4.25",
+      "test_duration_seconds_count 4",
+    ])
+  })
+})
+
+describe("measureDuration", () => {
+  it("records the duration of a failed call too", async () => {
+    const duration = createHistogram("test_failing_seconds", "Failing calls", [60])
+    await expect(measureDuration(duration, async () => Promise.reject(new Error("upstream down")))).rejects.toThrow()
+
+    expect(linesOf("test_failing_seconds_count")).toEqual(["test_failing_seconds_count 1"])
+  })
+})
+
+describe("routeLabel", () => {
+  it("reports job routes under their pattern", () => {
+    expect(routeLabel("/api/jobs/3f1c9a")).toBe("/api/jobs/[id]")
+    expect(routeLabel("/api/jobs")).toBe("/api/jobs")
+    expect(routeLabel("/api/ocr")).toBe("/api/ocr")
+  })
+})
@@ -0,0 +1,78 @@
+import sharp from "sharp"
+import { beforeAll, describe, expect, it } from "vitest"
+import { correctOrientation } from "@/lib/orientation"
+
+const DETECT_ALL = { detectRotation: true, maxSkewAngle: 10 }
+
+let page: Buffer
+
+// A page of text lines: dark bars for words, with the ascenders (b, d, h, l) that outnumber descenders in
+// Latin text, which is what tells upright text from upside down
+beforeAll(async () => {
+  const marks: sharp.OverlayOptions[] = []
+  for (let line = 0; line < 14; line++) {
+    const top = 60 + line * 36
+    for (let x = 60; x < 700; ) {
+      const width = 30 + ((line * 37 + x) % 70)
+      marks.push({ input: { create: { width, height: 14, channels: 3, background: "#000000" } }, left: x, top })
+      marks.push({ input: { create: { width: 5, height: 9, channels: 3, background: "#000000" } }, left: x + 6, top: top - 9 })
+      x += width + 14
+    }
+  }
+  page = await sharp({ create: { width: 800, height: 600, channels: 3, background: "#ffffff" } }).composite(marks).png().toBuffer()
+})
+
+const rotated = (angle: number) => sharp(page).rotate(angle, { background: "#ffffff" }).png().toBuffer()
+
+describe("correctOrientation", () => {
+  it("returns the upload untouched when nothing is to be detected", async () => {
+    const result = await correctOrientation(page, { detectRotation: false, maxSkewAngle: 0 })
+    expect(result.buffer).toBe(page)
+    expect(result.corrections).toEqual({ exifOrientation: null, rotation: 0, deskewAngle: 0 })
+  })
+
+  it("leaves an upright page and a blank page alone", async () => {
+    expect((await correctOrientation(page, DETECT_ALL)).corrections.rotation).toBe(0)
+    const blank = await sharp({ create: { width: 400, height: 300, channels: 3, background: "#ffffff" } }).png().toBuffer()
+    expect((await correctOrientation(blank, DETECT_ALL)).buffer).toBe(blank)
+  })
+
+  it.each([
+    [90, 270],
+    [180, 180],
+    [270, 90],
+  ])("turns a page rotated by %i degrees upright with a %i degree turn", async (angle, correction) => {
+    const result = await correctOrientation(await rotated(angle), DETECT_ALL)
+    expect(result.corrections).toMatchObject({ rotation: correction, deskewAngle: 0 })
+    expect([result.width, result.height]).toEqual([800, 600])
+  })
+
+  it("straightens a slightly tilted page", async () => {
+    const result = await correctOrientation(await rotated(4), DETECT_ALL)
+    expect(result.corrections.rotation).toBe(0)
+    expect(result.corrections.deskewAngle).toBeCloseTo(-4, 0)
+  })
+
+  it("never deskews by more than maxSkewAngle", async () => {
+    const result = await correctOrientation(await rotated(6), { detectRotation: false, maxSkewAngle: 3 })
+    expect(Math.abs(result.corrections.deskewAngle)).toBeLessThanOrEqual(3)
+  })
+
+  it("maps boxes in the corrected image back to the upload", async () => {
+    const result = await correctOrientation(await rotated(90), DETECT_ALL)
+    // The page's top-left corner is the top-right corner of the upload once it is turned a quarter clockwise
+    const box = result.toOriginal({ x: 0, y: 0, width: 100, height: 50 })
+    expect(box.x).toBeCloseTo(550)
+    expect(box.y).toBeCloseTo(0)
+    expect(box.width).toBeCloseTo(50)
+    expect(box.height).toBeCloseTo(100)
+  })
+
+  it("applies the EXIF orientation and reports boxes in the displayed orientation", async () => {
+    const photo = await sharp(page).withMetadata({ orientation: 6 }).jpeg().toBuffer()
+    const result = await correctOrientation(photo, { detectRotation: false, maxSkewAngle: 0 })
+    expect(result.corrections.exifOrientation).toBe(6)
+    expect([result.originalWidth, result.originalHeight]).toEqual([600, 800])
+    expect(await sharp(result.buffer).metadata()).toMatchObject({ width: 600, height: 800 })
+  })
+})
@@ -0,0 +1,49 @@
+import { PDFDocument } from "pdf-lib"
+import { describe, expect, it } from "vitest"
+import { OcrError } from "@/lib/errors"
+import { countPdfPages, rasterizePdf } from "@/lib/pdf"
+
+// A PDF with one blank page of each size, in points
+async function blankPdf(...sizes: [number, number][]): Promise<Buffer> {
+  const document = await PDFDocument.create()
+  for (const size of sizes) {
+    document.addPage(size)
+  }
+  return Buffer.from(await document.save())
+}
+
+async function renderAll(pdf: Buffer, dpi: number, maxPagePixels: number) {
+  const pages = []
+  for await (const page of rasterizePdf(pdf, dpi, maxPagePixels)) {
+    pages.push(page)
+  }
+  return pages
+}
+
+describe("countPdfPages", () => {
+  it("rejects documents over the page limit", async () => {
+    const pdf = await blankPdf([72, 72], [72, 72], [72, 72])
+    expect(await countPdfPages(pdf, 3)).toBe(3)
+    await expect(countPdfPages(pdf, 2)).rejects.toMatchObject({ code: "TOO_MANY_PAGES", details: { pages: 3, limit: 2 } })
+    await expect(countPdfPages(pdf, 2)).rejects.toBeInstanceOf(OcrError)
+  })
+})
+
+describe("rasterizePdf", () => {
+  it("renders each page at the requested DPI", async () => {
+    const pages = await renderAll(await blankPdf([72, 144], [36, 36]), 144, 1_000_000)
+    expect(pages.map(({ pageNumber, width, height }) => ({ pageNumber, width, height }))).toEqual([
+      { pageNumber: 1, width: 144, height: 288 },
+      { pageNumber: 2, width: 72, height: 72 },
+    ])
+    expect(pages[0].buffer.subarray(1, 4).toString("latin1")).toBe("PNG")
+  })
+
+  it("lowers the resolution of a page that would exceed the pixel limit", async () => {
+    // 40 by 20 inches at 400 DPI would be 128 million pixels
+    const [page] = await renderAll(await blankPdf([2880, 1440]), 400, 1_000_000)
+    expect(page.width * page.height).toBeLessThanOrEqual(1_000_000)
+    expect(page.width * page.height).toBeGreaterThan(950_000)
+    expect(page.width / page.height).toBeCloseTo(2, 1)
+  })
+})
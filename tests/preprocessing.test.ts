@@ -0,0 +1,82 @@
+import sharp from "sharp"
+import { describe, expect, it } from "vitest"
+import {
+  applyPreprocessing,
+  orientationOptions,
+  parsePreprocessing,
+  preprocessingPresets,
+  type PreprocessingStep,
+} from "@/lib/preprocessing"
+
+describe("parsePreprocessing", () => {
+  it("uses the document preset when the field is absent", () => {
+    expect(parsePreprocessing(null)).toEqual(preprocessingPresets().document)
+    expect(parsePreprocessing("")).toEqual(preprocessingPresets().document)
+  })
+
+  it("accepts a preset name or a JSON array of steps", () => {
+    expect(parsePreprocessing("none")).toEqual([])
+    expect(parsePreprocessing('[{"type":"grayscale"},{"type":"threshold","value":128}]')).toEqual([
+      { type: "grayscale" },
+      { type: "threshold", value: 128 },
+    ])
+  })
+
+  it("names the available presets when the value is neither", () => {
+    expect(() => parsePreprocessing("scan")).toThrow(
+      'Unknown preprocessing preset "scan". Available presets: document, photo, screenshot, receipt, none',
+    )
+  })
+
+  it("lists every invalid step", () => {
+    let error: unknown
+    try {
+      parsePreprocessing('[{"type":"median","size":4},{"type":"gamma","value":5,"extra":1}]')
+    } catch (parseError) {
+      error = parseError
+    }
+    expect(error).toMatchObject({
+      code: "INVALID_REQUEST",
+      details: {
+        issues: [
+          "steps.0.size: Must be an odd number",
+          "steps.1.value: Number must be less than or equal to 3",
+          "steps.1: Unrecognized key(s) in object: 'extra'",
+        ],
+      },
+    })
+  })
+
+  it("rejects pipelines over the step limit", () => {
+    const steps = JSON.stringify(Array.from({ length: 21 }, () => ({ type: "normalize" })))
+    expect(() => parsePreprocessing(steps)).toThrow("The preprocessing steps are not valid")
+  })
+})
+
+describe("preprocessingPresets", () => {
+  it("enlarges receipts half as much again, up to the upscale limit", () => {
+    const upscale = (steps: PreprocessingStep[]) => steps.find((step) => step.type === "upscale")
+    expect(upscale(preprocessingPresets(600).document)).toEqual({ type: "upscale", minDimension: 600 })
+    expect(upscale(preprocessingPresets(600).receipt)).toEqual({ type: "upscale", minDimension: 900 })
+    expect(upscale(preprocessingPresets(3000).receipt)).toEqual({ type: "upscale", minDimension: 4000 })
+  })
+})
+
+describe("orientationOptions", () => {
+  it("reads rotation detection and the deskew limit from the steps", () => {
+    expect(orientationOptions(preprocessingPresets().photo)).toEqual({ detectRotation: true, maxSkewAngle: 15 })
+    expect(orientationOptions(preprocessingPresets().screenshot)).toEqual({ detectRotation: false, maxSkewAngle: 0 })
+  })
+})
+
+describe("applyPreprocessing", () => {
+  it("enlarges only images smaller than the upscale target, keeping their shape", async () => {
+    const small = sharp({ create: { width: 200, height: 100, channels: 3, background: "#ffffff" } })
+    const upscaled = await applyPreprocessing(small, [{ type: "upscale", minDimension: 1000 }], 200, 100).png().toBuffer()
+    expect(await sharp(upscaled).metadata()).toMatchObject({ width: 1000, height: 500 })
+
+    const large = sharp({ create: { width: 1200, height: 600, channels: 3, background: "#ffffff" } })
+    const unchanged = await applyPreprocessing(large, [{ type: "upscale", minDimension: 1000 }], 1200, 600).png().toBuffer()
+    expect(await sharp(unchanged).metadata()).toMatchObject({ width: 1200, height: 600 })
+  })
+})
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import {
+  checkRateLimit,
+  clientAddress,
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+  type RateLimitConfig,
+  type TokenBucket,
+  type RateLimitSubject,
+} from "@/lib/rate-limit"
+
+const config: RateLimitConfig = {
+  backend: "memory",
+  ip: { burst: 5, perMinute: 1, dailyQuota: 3 },
+  key: { burst: 5, perMinute: 1, dailyQuota: 0 },
+  trustedProxyHops: 1,
+}
+
+const requestFrom = (forwardedFor?: string) =>
+  new Request("http://localhost/api/ocr", { headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {} })
+
+describe("clientAddress", () => {
+  it("ignores X-Forwarded-For entries the client wrote itself", () => {
+    expect(clientAddress(requestFrom("6.6.6.6, 203.0.113.7"), 1)).toBe("203.0.113.7")
+    expect(clientAddress(requestFrom("6.6.6.6, 203.0.113.7, 10.0.0.2"), 2)).toBe("203.0.113.7")
+  })
+
+  it("uses the leftmost entry when there are fewer than the trusted hops", () => {
+    expect(clientAddress(requestFrom("203.0.113.7"), 2)).toBe("203.0.113.7")
+  })
+
+  it("does not read the header when no proxy is trusted", () => {
+    expect(clientAddress(requestFrom("203.0.113.7"), 0)).toBe("unknown")
+    expect(clientAddress(requestFrom(), 1)).toBe("unknown")
+  })
+})
+
+describe("checkRateLimit", () => {
+  const subject: RateLimitSubject[] = [{ kind: "ip", id: "203.0.113.7" }]
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore())
+  })
+
+  it("rejects requests over the daily quota", async () => {
+    expect((await checkRateLimit(subject, 3, config)).allowed).toBe(true)
+    const decision = await checkRateLimit(subject, 1, config)
+    expect(decision).toMatchObject({ allowed: false, exceeded: "quota" })
+  })
+
+  it("does not count rejected requests against the quota", async () => {
+    expect((await checkRateLimit(subject, 2, config)).allowed).toBe(true)
+    // Two more would go over the quota of three, so they are turned away without being counted
+    expect((await checkRateLimit(subject, 2, config)).exceeded).toBe("quota")
+    const decision = await checkRateLimit(subject, 1, config)
+    expect(decision.allowed).toBe(true)
+    expect(decision.policies.at(-1)?.remaining).toBe(0)
+  })
+})
+
+describe("createMemoryRateLimitStore", () => {
+  // Five tokens, refilled at one per minute
+  const bucket: TokenBucket = { capacity: 5, refillPerMs: 1 / 60_000 }
+
+  it("evicts buckets that have refilled since they were last used", async () => {
+    const store = createMemoryRateLimitStore(3)
+    await store.takeTokens("idle-1", 1, bucket, 0)
+    await store.takeTokens("idle-2", 5, bucket, 0)
+    await store.takeTokens("active", 5, bucket, 4 * 60_000)
+
+    // Five minutes refill the idle buckets but not the one emptied a minute ago
+    await store.takeTokens("new", 1, bucket, 5 * 60_000)
+
+    expect(store.size()).toBe(2)
+    expect(await store.takeTokens("active", 5, bucket, 5 * 60_000)).toMatchObject({ allowed: false })
+  })
+})
@@ -0,0 +1,80 @@
+import sharp from "sharp"
+import { describe, expect, it } from "vitest"
+import type { OcrLayoutPage } from "@/lib/layout"
+import { checkRegionBounds, cropRegions, offsetLayoutBlocks, parseRegions } from "@/lib/regions"
+
+const image = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: "#ffffff" } }).png().toBuffer()
+
+describe("parseRegions", () => {
+  it("recognizes the whole image when the field is absent", () => {
+    expect(parseRegions(null)).toBeNull()
+    expect(parseRegions("")).toBeNull()
+  })
+
+  it("lists the invalid rectangles", () => {
+    expect(() => parseRegions('[{"x":-1,"y":0,"width":0,"height":10}]')).toThrow(
+      expect.objectContaining({
+        code: "INVALID_REQUEST",
+        details: {
+          issues: ["regions.0.x: Number must be greater than or equal to 0", "regions.0.width: Number must be greater than or equal to 1"],
+        },
+      }),
+    )
+    expect(() => parseRegions("[]")).toThrow("The regions are not valid")
+    expect(() => parseRegions("x=10")).toThrow("regions must be a JSON array of rectangles")
+  })
+})
+
+describe("checkRegionBounds", () => {
+  it("accepts regions that reach the image edge and rejects those past it", async () => {
+    const upload = await image(200, 100)
+    await expect(checkRegionBounds(upload, [{ x: 150, y: 50, width: 50, height: 50 }])).resolves.toBeUndefined()
+    await expect(
+      checkRegionBounds(upload, [
+        { x: 0, y: 0, width: 10, height: 10 },
+        { x: 151, y: 0, width: 50, height: 10 },
+      ]),
+    ).rejects.toMatchObject({ code: "INVALID_REQUEST", details: { issues: ["regions.1: extends past the 200x100 image"] } })
+  })
+
+  it("checks against the image as displayed, after its EXIF orientation", async () => {
+    // Stored landscape, displayed portrait
+    const photo = await sharp(await image(200, 100)).withMetadata({ orientation: 6 }).jpeg().toBuffer()
+    await expect(checkRegionBounds(photo, [{ x: 0, y: 0, width: 100, height: 200 }])).resolves.toBeUndefined()
+    await expect(checkRegionBounds(photo, [{ x: 0, y: 0, width: 200, height: 100 }])).rejects.toMatchObject({
+      code: "INVALID_REQUEST",
+    })
+  })
+})
+
+describe("cropRegions", () => {
+  it("cuts out each region at its own size", async () => {
+    const crops = await cropRegions(await image(200, 100), [
+      { x: 0, y: 0, width: 50, height: 40 },
+      { x: 100, y: 20, width: 100, height: 80 },
+    ])
+    const sizes = await Promise.all(crops.map(async (crop) => (await sharp(crop).metadata()).width))
+    expect(sizes).toEqual([50, 100])
+  })
+})
+
+describe("offsetLayoutBlocks", () => {
+  it("moves every box by the region's position", () => {
+    const box = { x: 5, y: 10, width: 20, height: 8 }
+    const regionPage: OcrLayoutPage = {
+      page: 1,
+      width: 100,
+      height: 50,
+      blocks: [{ text: "Total", bbox: box, lines: [{ text: "Total", bbox: box, words: [{ text: "Total", bbox: box }] }] }],
+    }
+
+    const [block] = offsetLayoutBlocks(regionPage, { x: 300, y: 200, width: 100, height: 50 })
+
+    const moved = { x: 305, y: 210, width: 20, height: 8 }
+    expect(block.bbox).toEqual(moved)
+    expect(block.lines[0].bbox).toEqual(moved)
+    expect(block.lines[0].words[0].bbox).toEqual(moved)
+    expect(regionPage.blocks[0].bbox).toEqual(box)
+  })
+})
@@ -0,0 +1,83 @@
+import path from "node:path"
+import { PDFDocument, degrees } from "pdf-lib"
+import { describe, expect, it } from "vitest"
+import { OcrError } from "@/lib/errors"
+import type { OcrLayoutPage } from "@/lib/layout"
+import { checkSearchablePdfSource, createSearchablePdf } from "@/lib/searchable-pdf"
+
+// Layout pixels per PDF point, as if the page had been rasterized at 144 DPI
+const SCALE = 2
+
+// A page whose CropBox does not start at the origin, turned by the given /Rotate
+async function rotatedPdf(rotation: number): Promise<Buffer> {
+  const document = await PDFDocument.create()
+  const page = document.addPage([600, 800])
+  page.setCropBox(50, 100, 500, 600)
+  page.setRotation(degrees(rotation))
+  return Buffer.from(await document.save())
+}
+
+// Where the text layer's words start on the page as pdf.js displays it, in layout pixels
+async function wordOrigins(pdf: Uint8Array): Promise<{ text: string; x: number; y: number }[]> {
+  const { getDocument, Util } = await import("pdfjs-dist/legacy/build/pdf.mjs")
+  const document = await getDocument({
+    data: pdf,
+    standardFontDataUrl: path.join(process.cwd(), "node_modules/pdfjs-dist/standard_fonts/"),
+    isEvalSupported: false,
+  }).promise
+  try {
+    const page = await document.getPage(1)
+    const viewport = page.getViewport({ scale: SCALE })
+    const content = await page.getTextContent()
+    return content.items.flatMap((item) => {
+      if (!("str" in item) || !item.str.trim()) {
+        return []
+      }
+      const [, , , , x, y] = Util.transform(viewport.transform, item.transform)
+      return [{ text: item.str, x, y }]
+    })
+  } finally {
+    await document.destroy()
+  }
+}
+
+describe("createSearchablePdf", () => {
+  it.each([0, 90, 180, 270])("places words over their boxes on a page rotated by %i degrees", async (rotation) => {
+    const displayedWidth = rotation % 180 === 0 ? 500 : 600
+    const displayedHeight = rotation % 180 === 0 ? 600 : 500
+    const word = { text: "Total", bbox: { x: 120, y: 300, width: 200, height: 40 } }
+    const layoutPage: OcrLayoutPage = {
+      page: 1,
+      width: displayedWidth * SCALE,
+      height: displayedHeight * SCALE,
+      blocks: [{ text: word.text, bbox: word.bbox, lines: [{ text: word.text, bbox: word.bbox, words: [word] }] }],
+    }
+
+    const pdf = await createSearchablePdf(await rotatedPdf(rotation), "application/pdf", [layoutPage])
+    const [origin] = await wordOrigins(pdf)
+
+    expect(origin.text).toBe("Total")
+    expect(origin.x).toBeCloseTo(word.bbox.x, 0)
+    // The baseline sits a fifth of the box height above its bottom edge
+    expect(origin.y).toBeCloseTo(word.bbox.y + word.bbox.height * 0.8, 0)
+  })
+})
+
+describe("checkSearchablePdfSource", () => {
+  it("rejects encrypted PDFs with ENCRYPTED_PDF", async () => {
+    const document = await PDFDocument.create()
+    document.addPage([100, 100])
+    // pdf-lib cannot encrypt, so mark the trailer the way an encrypted file would be
+    document.context.trailerInfo.Encrypt = document.context.obj({ Filter: "Standard" })
+    const encrypted = Buffer.from(await document.save())
+
+    const error = await checkSearchablePdfSource(encrypted, "application/pdf").catch((caught: unknown) => caught)
+    expect(error).toBeInstanceOf(OcrError)
+    expect((error as OcrError).code).toBe("ENCRYPTED_PDF")
+  })
+
+  it("accepts unencrypted PDFs and images", async () => {
+    await expect(checkSearchablePdfSource(await rotatedPdf(0), "application/pdf")).resolves.toBeUndefined()
+    await expect(checkSearchablePdfSource(Buffer.from("not a pdf"), "image/png")).resolves.toBeUndefined()
+  })
+})
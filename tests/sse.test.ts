@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { createSseResponse, readOcrStream } from "@/lib/sse"
+
+// The body of a streamed /api/ocr response carrying the given events
+function ocrStream(events: [string, unknown][]): ReadableStream<Uint8Array> {
+  return createSseResponse(async (send) => {
+    for (const [event, data] of events) {
+      send(event, data)
+    }
+  }).body!
+}
+
+describe("readOcrStream", () => {
+  it("renders the text as the tokens arrive", async () => {
+    const stages: string[] = []
+    const texts: string[] = []
+
+    const { result, error } = await readOcrStream(
+      ocrStream([
+        ["preprocessing", { page: 1, totalPages: 2 }],
+        ["inference", { page: 1, totalPages: 2 }],
+        ["token", { page: 1, text: "Invoice" }],
+        ["token", { page: 1, text: " 42" }],
+        ["token", { page: 2, text: "Thank you" }],
+        ["done", { text: "Invoice 42\n\nThank you", truncated: false, cache: { status: "miss", key: "k", storedAt: null } }],
+      ]),
+      { onStage: (stage) => stages.push(stage), onText: (text) => texts.push(text) },
+    )
+
+    expect(stages).toEqual(["preprocessing", "inference"])
+    expect(texts).toEqual(["Invoice", "Invoice 42", "Invoice 42\n\nThank you"])
+    expect(result).toMatchObject({ text: "Invoice 42\n\nThank you", cache: { status: "miss" } })
+    expect(error).toBeNull()
+  })
+
+  it("returns the coded error of a failed stream", async () => {
+    const error = { code: "UPSTREAM_TIMEOUT", message: "timed out", retryable: true, details: null }
+
+    const outcome = await readOcrStream(ocrStream([["token", { page: 1, text: "Inv" }], ["error", { error }]]))
+
+    expect(outcome).toEqual({ result: null, error })
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { TILE_SIZE, mergeTileText, planTiles } from "@/lib/tiling"
+
+describe("planTiles", () => {
+  it("orders tiles row by row", () => {
+    const tiles = planTiles(TILE_SIZE * 2, TILE_SIZE * 2)
+    expect(tiles.map((tile) => [tile.row, tile.column])).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+      [1, 0],
+      [1, 1],
+      [1, 2],
+      [2, 0],
+      [2, 1],
+      [2, 2],
+    ])
+  })
+})
+
+describe("mergeTileText", () => {
+  // Two tiles side by side; each line is cut by the shared edge and the overlap is read by both
+  const wide = planTiles(TILE_SIZE + 800, 1000)
+
+  it("joins the tiles of a row line by line without repeating the overlap", () => {
+    const text = mergeTileText(wide, [
+      "The quick brown fox jumps\nPack my box with five",
+      "fox jumps over the lazy dog\nwith five dozen liquor jugs",
+    ])
+    expect(text).toBe("The quick brown fox jumps over the lazy dog\nPack my box with five dozen liquor jugs")
+  })
+
+  it("takes a word cut at the tile edge from the tile that read it whole", () => {
+    const text = mergeTileText(wide, ["Quarterly revenue grew by twel", "grew by twelve percent overall"])
+    expect(text).toBe("Quarterly revenue grew by twelve percent overall")
+  })
+
+  it("keeps lines that only one tile read", () => {
+    const text = mergeTileText(wide, ["Invoice total due\nNotes", "total due on receipt\nSigned"])
+    expect(text).toBe("Invoice total due on receipt\nNotes Signed")
+  })
+
+  it("joins rows top to bottom after joining each row", () => {
+    const grid = planTiles(TILE_SIZE + 800, TILE_SIZE + 800)
+    const text = mergeTileText(grid, [
+      "Header left part\nSecond line starts here",
+      "left part and right part\nstarts here and ends here",
+      "Second line starts here\nFooter begins on the",
+      "starts here and ends here\nbegins on the right side",
+    ])
+    expect(text).toBe(
+      "Header left part and right part\nSecond line starts here and ends here\nFooter begins on the right side",
+    )
+  })
+})
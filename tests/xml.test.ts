@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest"
+import { escapeXml } from "@/lib/xml"
+
+describe("escapeXml", () => {
+  it("escapes markup characters for content and attribute values", () => {
+    expect(escapeXml(`Smith & Sons <Ltd> "quoted" it's`)).toBe("Smith &amp; Sons &lt;Ltd&gt; &quot;quoted&quot; it&apos;s")
+  })
+
+  it("drops control characters XML does not allow", () => {
+    expect(escapeXml("a\x00b\x08c\x0Bd\x0Ce\x0Ef\x1Fg")).toBe("abcdefg")
+  })
+
+  it("keeps tabs, line feeds and carriage returns", () => {
+    expect(escapeXml("a\tb\nc\rd")).toBe("a\tb\nc\rd")
+  })
+})